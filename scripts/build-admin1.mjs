@@ -0,0 +1,172 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { geoArea, tsvParse } from 'd3'
+
+// Usage: node scripts/build-admin1.mjs <source.geojson> [...more.geojson]
+// Sources are the Natural Earth "Admin 1 - States, Provinces" layer exported
+// as GeoJSON, or per-country extracts of it named by ISO alpha-3 code (such
+// as the `src/js/data/<iso3>.json` files in the datamaps package). Features
+// without an `adm0_a3` take their country from the file name.
+const DATA_DIR = path.resolve(process.cwd(), 'public/data')
+const NAMES_PATH = path.join(DATA_DIR, 'countries-110m.tsv')
+const OUTPUT_PATH = path.join(DATA_DIR, 'admin1-50m.json')
+const PARENT_COUNTRIES = ['USA', 'CAN', 'CHN', 'RUS', 'AUS', 'BRA']
+const COORDINATE_DIGITS = 3
+// Brings 1:10m sources down to roughly 1:50m detail, in degrees.
+const SIMPLIFY_TOLERANCE = 0.02
+
+// Mirrors normalizeId in src/utils/country.ts so parent ids match the map data.
+function normalizeId(value) {
+  const stripped = String(value).replace(/^0+/, '')
+  return stripped === '' ? '0' : stripped
+}
+
+function roundCoordinates(value) {
+  if (typeof value === 'number') {
+    return Number(value.toFixed(COORDINATE_DIGITS))
+  }
+  return value.map(roundCoordinates)
+}
+
+function getSegmentDistance(point, start, end) {
+  const dx = end[0] - start[0]
+  const dy = end[1] - start[1]
+  const lengthSquared = dx * dx + dy * dy
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.min(
+          Math.max(
+            ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) /
+              lengthSquared,
+            0
+          ),
+          1
+        )
+  return Math.hypot(point[0] - (start[0] + t * dx), point[1] - (start[1] + t * dy))
+}
+
+// Douglas-Peucker in degrees, like simplifyArc in build-detail-outlines.mjs,
+// that leaves rings alone when they would collapse below a valid polygon.
+function simplifyRing(ring) {
+  if (ring.length <= 4) {
+    return ring
+  }
+  const keep = new Uint8Array(ring.length)
+  keep[0] = 1
+  keep[ring.length - 1] = 1
+  const stack = [[0, ring.length - 1]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()
+    let maxDistance = 0
+    let index = -1
+    for (let i = first + 1; i < last; i += 1) {
+      const distance = getSegmentDistance(ring[i], ring[first], ring[last])
+      if (distance > maxDistance) {
+        maxDistance = distance
+        index = i
+      }
+    }
+    if (index !== -1 && maxDistance > SIMPLIFY_TOLERANCE) {
+      keep[index] = 1
+      stack.push([first, index], [index, last])
+    }
+  }
+  const simplified = ring.filter((_, index) => keep[index] === 1)
+  return simplified.length >= 4 ? simplified : ring
+}
+
+function simplifyCoordinates(type, coordinates) {
+  if (type === 'Polygon') {
+    return coordinates.map(simplifyRing)
+  }
+  if (type === 'MultiPolygon') {
+    return coordinates.map((polygon) => polygon.map(simplifyRing))
+  }
+  return coordinates
+}
+
+// RFC 7946 exports wind exterior rings counter-clockwise, which d3-geo reads
+// as "everything but this polygon"; flip any polygon that covers > a hemisphere.
+function rewindPolygon(rings) {
+  return geoArea({ type: 'Polygon', coordinates: rings }) > 2 * Math.PI
+    ? rings.map((ring) => [...ring].reverse())
+    : rings
+}
+
+function rewindGeometry(geometry) {
+  if (geometry.type === 'Polygon') {
+    return { ...geometry, coordinates: rewindPolygon(geometry.coordinates) }
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return {
+      ...geometry,
+      coordinates: geometry.coordinates.map(rewindPolygon),
+    }
+  }
+  return geometry
+}
+
+async function readSource(sourcePath) {
+  const source = JSON.parse(await readFile(sourcePath, 'utf8'))
+  const fileCountry = path.basename(sourcePath, path.extname(sourcePath)).toUpperCase()
+  return source.features.map((entry) => {
+    const country = entry.properties?.adm0_a3 ?? fileCountry
+    return {
+      country,
+      code: entry.properties?.adm1_code ?? (entry.id ? `${country}-${entry.id}` : null),
+      name: entry.properties?.name ?? entry.properties?.name_en ?? null,
+      geometry: entry.geometry,
+    }
+  })
+}
+
+async function run() {
+  const sourcePaths = process.argv.slice(2)
+  if (sourcePaths.length === 0) {
+    throw new Error(
+      'Pass one or more Natural Earth admin-1 GeoJSON files as arguments.'
+    )
+  }
+  const entries = (await Promise.all(sourcePaths.map(readSource))).flat()
+  const rows = tsvParse(await readFile(NAMES_PATH, 'utf8'))
+  const parentIds = new Map(
+    rows
+      .filter((row) => row.iso_n3 && row.iso_n3 !== '-99')
+      .map((row) => [row.adm0_a3, normalizeId(row.iso_n3)])
+  )
+
+  // Unnamed entries are Natural Earth's "minor island" fragments.
+  const features = entries
+    .filter((entry) => PARENT_COUNTRIES.includes(entry.country))
+    .filter((entry) => entry.geometry && entry.code && entry.name)
+    .map((entry) => ({
+      type: 'Feature',
+      id: entry.code,
+      properties: {
+        name: entry.name,
+        parent: parentIds.get(entry.country) ?? null,
+      },
+      geometry: rewindGeometry({
+        type: entry.geometry.type,
+        coordinates: roundCoordinates(
+          simplifyCoordinates(entry.geometry.type, entry.geometry.coordinates)
+        ),
+      }),
+    }))
+    .sort((a, b) => a.properties.name.localeCompare(b.properties.name))
+
+  await writeFile(
+    OUTPUT_PATH,
+    `${JSON.stringify({ type: 'FeatureCollection', features })}\n`,
+    'utf8'
+  )
+  console.log(
+    `Wrote ${features.length} regions -> ${path.relative(process.cwd(), OUTPUT_PATH)}`
+  )
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
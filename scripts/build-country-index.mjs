@@ -0,0 +1,71 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { geoArea, tsvParse } from 'd3'
+import { feature } from 'topojson-client'
+
+const DATA_DIR = path.resolve(process.cwd(), 'public/data')
+const TOPO_PATH = path.join(DATA_DIR, 'countries-110m.json')
+const NAMES_PATH = path.join(DATA_DIR, 'countries-110m.tsv')
+const OUTPUT_PATH = path.resolve(process.cwd(), 'src/country-index.json')
+const EARTH_RADIUS_KM = 6371.0088
+
+// Mirrors normalizeId in src/utils/country.ts so ids line up with the map data.
+function normalizeId(value) {
+  const stripped = String(value).replace(/^0+/, '')
+  return stripped === '' ? '0' : stripped
+}
+
+// Mirrors toComparisonSlug in src/utils/comparison.ts so prerendered compare
+// routes resolve the same way client routing does.
+function toSlug(value) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+async function run() {
+  const topology = JSON.parse(await readFile(TOPO_PATH, 'utf8'))
+  const rows = tsvParse(await readFile(NAMES_PATH, 'utf8'))
+  const rowsById = new Map(
+    rows
+      .filter((row) => row.iso_n3 && row.iso_n3 !== '-99')
+      .map((row) => [normalizeId(row.iso_n3), row])
+  )
+
+  const collection = feature(topology, topology.objects.countries)
+  const countries = collection.features
+    .filter((entry) => entry.id !== undefined && entry.id !== null)
+    .map((entry) => {
+      const id = normalizeId(entry.id)
+      const row = rowsById.get(id)
+      const names = [row?.name_long, row?.name, row?.admin, entry.properties?.name]
+        .filter(Boolean)
+      const slugs = [...new Set(names.map(toSlug).filter(Boolean))]
+      const reportedArea = Number(row?.area_km2)
+      const hasReportedArea = row?.area_km2 && Number.isFinite(reportedArea)
+      return {
+        id,
+        name: names[0] ?? `Country ${id}`,
+        slugs,
+        areaKm2: hasReportedArea
+          ? reportedArea
+          : Math.round(geoArea(entry) * EARTH_RADIUS_KM * EARTH_RADIUS_KM),
+        areaSource: hasReportedArea ? 'reported' : 'computed',
+      }
+    })
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  await writeFile(OUTPUT_PATH, `${JSON.stringify(countries, null, 2)}\n`, 'utf8')
+  console.log(
+    `Wrote ${countries.length} countries -> ${path.relative(process.cwd(), OUTPUT_PATH)}`
+  )
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
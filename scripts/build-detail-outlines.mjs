@@ -0,0 +1,203 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+// Usage: node scripts/build-detail-outlines.mjs <countries-50m.json> [countries-10m.json]
+// Sources are the world-atlas v2 TopoJSON files; the detail level is read from
+// the file name. Outlines are simplified here rather than on load so swapping
+// in a finer layer never runs Douglas-Peucker on the main thread.
+const DATA_DIR = path.resolve(process.cwd(), 'public/data')
+// In degrees; keeps a dragged 10m coastline about as cheap as the 110m one.
+const SIMPLIFY_TOLERANCE = {
+  '50m': 0.02,
+  '10m': 0.004,
+}
+// A ring needs three distinct points plus the closing one.
+const MIN_RING_POSITIONS = 4
+
+function getSegmentDistance(point, start, end) {
+  const dx = end[0] - start[0]
+  const dy = end[1] - start[1]
+  const lengthSquared = dx * dx + dy * dy
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.min(
+          Math.max(
+            ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) /
+              lengthSquared,
+            0
+          ),
+          1
+        )
+  return Math.hypot(point[0] - (start[0] + t * dx), point[1] - (start[1] + t * dy))
+}
+
+// Delta-decodes a quantized arc into absolute positions.
+function decodeArc(arc, transform) {
+  if (!transform) {
+    return arc.map((point) => [...point])
+  }
+  let x = 0
+  let y = 0
+  return arc.map(([dx, dy]) => {
+    x += dx
+    y += dy
+    return [x, y]
+  })
+}
+
+function encodeArc(points, transform) {
+  if (!transform) {
+    return points
+  }
+  let x = 0
+  let y = 0
+  return points.map(([px, py]) => {
+    const delta = [px - x, py - y]
+    x = px
+    y = py
+    return delta
+  })
+}
+
+function toDegrees([x, y], transform) {
+  if (!transform) {
+    return [x, y]
+  }
+  return [
+    x * transform.scale[0] + transform.translate[0],
+    y * transform.scale[1] + transform.translate[1],
+  ]
+}
+
+// Douglas-Peucker in degrees over one arc. Simplifying shared arcs rather than
+// each country's rings keeps neighbouring borders identical.
+function simplifyArc(points, tolerance, transform) {
+  if (points.length <= 2) {
+    return points
+  }
+  const degrees = points.map((point) => toDegrees(point, transform))
+  const keep = new Uint8Array(points.length)
+  keep[0] = 1
+  keep[points.length - 1] = 1
+  const stack = [[0, points.length - 1]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()
+    let maxDistance = 0
+    let index = -1
+    for (let i = first + 1; i < last; i += 1) {
+      const distance = getSegmentDistance(degrees[i], degrees[first], degrees[last])
+      if (distance > maxDistance) {
+        maxDistance = distance
+        index = i
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = 1
+      stack.push([first, index], [index, last])
+    }
+  }
+  return points.filter((_, index) => keep[index] === 1)
+}
+
+function getRings(geometry) {
+  if (geometry.type === 'Polygon') {
+    return geometry.arcs
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return geometry.arcs.flat()
+  }
+  if (geometry.type === 'GeometryCollection') {
+    return geometry.geometries.flatMap(getRings)
+  }
+  return []
+}
+
+const toArcIndex = (index) => (index < 0 ? ~index : index)
+
+function getRingPositions(ring, arcs) {
+  return ring.flatMap((index, position) => {
+    const points =
+      index < 0 ? [...arcs[toArcIndex(index)]].reverse() : arcs[index]
+    return position === 0 ? points : points.slice(1)
+  })
+}
+
+// Shoelace area in quantized units; only its sign and zero-ness matter.
+function getSignedArea(positions) {
+  let area = 0
+  for (let i = 1; i < positions.length; i += 1) {
+    const [x0, y0] = positions[i - 1]
+    const [x1, y1] = positions[i]
+    area += x0 * y1 - x1 * y0
+  }
+  return area
+}
+
+async function buildLevel(sourcePath) {
+  const level = path.basename(sourcePath).match(/(50m|10m)/)?.[1]
+  if (!level) {
+    throw new Error(
+      `Cannot tell the detail level of ${sourcePath}; expected countries-50m.json or countries-10m.json.`
+    )
+  }
+  const topology = JSON.parse(await readFile(sourcePath, 'utf8'))
+  const countries = topology.objects?.countries
+  if (!countries) {
+    throw new Error(`${sourcePath} has no countries object.`)
+  }
+  const { transform } = topology
+  const original = topology.arcs.map((arc) => decodeArc(arc, transform))
+  const simplified = original.map((points) =>
+    simplifyArc(points, SIMPLIFY_TOLERANCE[level], transform)
+  )
+  // Put back the full arcs of any ring that would collapse or flip its winding;
+  // d3-geo reads a flipped island as the rest of the globe.
+  getRings(countries).forEach((ring) => {
+    const positions = getRingPositions(ring, simplified)
+    const area = getSignedArea(positions)
+    if (
+      positions.length < MIN_RING_POSITIONS ||
+      area === 0 ||
+      Math.sign(area) !== Math.sign(getSignedArea(getRingPositions(ring, original)))
+    ) {
+      ring.forEach((index) => {
+        simplified[toArcIndex(index)] = original[toArcIndex(index)]
+      })
+    }
+  })
+
+  // The land object is unused and only adds arc references.
+  const output = {
+    ...topology,
+    objects: { countries },
+    arcs: simplified.map((points) => encodeArc(points, transform)),
+  }
+  const outputPath = path.join(DATA_DIR, `countries-${level}.json`)
+  await writeFile(outputPath, JSON.stringify(output), 'utf8')
+  const before = original.reduce((total, points) => total + points.length, 0)
+  const after = simplified.reduce((total, points) => total + points.length, 0)
+  console.log(
+    `Wrote ${level} outlines (${before} -> ${after} points) -> ${path.relative(
+      process.cwd(),
+      outputPath
+    )}`
+  )
+}
+
+async function run() {
+  const sourcePaths = process.argv.slice(2)
+  if (sourcePaths.length === 0) {
+    throw new Error(
+      'Pass the world-atlas countries-50m.json and/or countries-10m.json files as arguments.'
+    )
+  }
+  for (const sourcePath of sourcePaths) {
+    await buildLevel(sourcePath)
+  }
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -106,6 +106,42 @@ function assertRouteSeo(route, headTags, expected) {
   }
 }
 
+// Generated comparisons (`/compare/<a>-vs-<b>`) resolve in the app from the
+// country index, so their expected SEO comes from the same resolver the SSR
+// bundle uses rather than from seo-meta.comparisons.
+function resolveGeneratedComparisonSeo(slug, resolveComparisonMeta) {
+  const meta = resolveComparisonMeta(slug)
+  if (!meta) {
+    throw new Error(
+      `seo-meta.generatedComparisons lists "${slug}", but it does not match countries in the map data.`
+    )
+  }
+  if (!meta.canonical.endsWith(`/compare/${slug}`)) {
+    throw new Error(
+      `seo-meta.generatedComparisons lists "${slug}", but its canonical is ${meta.canonical}. ` +
+        'List the canonical slug instead so the prerendered page is not a duplicate.'
+    )
+  }
+  return { title: meta.title, canonical: meta.canonical }
+}
+
+// Unlisted comparison pairs are served this client-rendered shell (see
+// vercel.json). It carries noindex and no prerendered markup, so it never
+// duplicates a real page's content, and the app replaces it with the 404 page
+// when the slug does not resolve to countries in the index.
+async function writeComparisonShell(templateHtml) {
+  const head = [
+    '<title>Country Size Comparison — True Size Map</title>',
+    '<meta name="robots" content="noindex">',
+  ].join('\n    ')
+  const html = renderRouteHtml(templateHtml, '', head)
+  const outputFile = path.join(DIST_DIR, 'compare-shell.html')
+  await writeFile(outputFile, html, 'utf8')
+  console.log(
+    `Prerendered comparison shell -> ${path.relative(process.cwd(), outputFile)}`
+  )
+}
+
 // Emit a real 404 page (noindex) so unknown URLs return a 404 instead of cloning
 // the homepage. Pairs with vercel.json routing unknown paths to /404.html with a
 // 404 status. The page is static (scripts stripped) so it never hydrates into the
@@ -150,7 +186,9 @@ async function run() {
   const templatePath = path.join(DIST_DIR, 'index.html')
   const templateHtml = await readFile(templatePath, 'utf8')
   const basePath = new URL(seoMeta.siteBaseUrl).pathname.replace(/\/$/, '')
-  const { render } = await import(pathToFileURL(SERVER_ENTRY_PATH).href)
+  const { render, resolveComparisonMeta } = await import(
+    pathToFileURL(SERVER_ENTRY_PATH).href
+  )
 
   for (const [route, pageId] of Object.entries(seoMeta.routes)) {
     const requestPath = toRequestPath(route, basePath)
@@ -169,6 +207,27 @@ async function run() {
     )
   }
 
+  for (const slug of seoMeta.generatedComparisons ?? []) {
+    const route = `/compare/${slug}`
+    const { appHtml, headTags } = render(toRequestPath(route, basePath))
+    assertRouteSeo(
+      route,
+      headTags,
+      resolveGeneratedComparisonSeo(slug, resolveComparisonMeta)
+    )
+    const [outputFile] = toOutputFiles(route)
+    await mkdir(path.dirname(outputFile), { recursive: true })
+    await writeFile(
+      outputFile,
+      renderRouteHtml(templateHtml, appHtml, headTags),
+      'utf8'
+    )
+    console.log(
+      `Prerendered ${route} -> ${path.relative(process.cwd(), outputFile)}`
+    )
+  }
+
+  await writeComparisonShell(templateHtml)
   await write404(templateHtml, seoMeta)
 }
 
@@ -7,7 +7,10 @@ import {
   useRef,
   useState,
 } from 'react'
-import type { PointerEvent as ReactPointerEvent } from 'react'
+import type {
+  KeyboardEvent as ReactKeyboardEvent,
+  PointerEvent as ReactPointerEvent,
+} from 'react'
 import type { LineString } from 'geojson'
 import * as d3 from 'd3'
 import {
@@ -31,37 +34,71 @@ import {
   Waves,
   Youtube,
 } from 'lucide-react'
-import { NavLink, useLocation } from 'react-router-dom'
+import { NavLink, useLocation, useNavigate } from 'react-router-dom'
 import { Helmet } from 'react-helmet-async'
 import type {
   CountryDatum,
   CountryFeature,
+  GlobeBearingHandle,
   GlobeHighlightCountry,
   LonLat,
+  MapProjectionId,
   MapRenderedCountry,
+  PlanetLighting,
   PlanetPlacement,
+  SharedMapState,
+  StampOverlay,
+  StampSelection,
+  StatusMessage,
+  TissotSettings,
+  Tour,
   Vec3,
 } from './types'
-import { EARTH_DIAMETER_KM, PLANETS, PLANET_TEXTURES } from './solar'
-import type { Planet } from './solar'
 import {
+  CUSTOM_BODY_ID,
+  EARTH_DIAMETER_KM,
+  PLANETS,
+  PLANET_COLORS,
+  PLANET_TEXTURES,
+} from './solar'
+import type { BodyId, SolarBody } from './solar'
+import { SKY_BODIES } from './planetSky'
+import {
+  BEARING_HANDLE_MAX_ARC,
+  BEARING_HANDLE_MIN_ARC,
+  BEARING_HANDLE_REACH,
+  EARTH_RADIUS_KM,
   GLOBE_DEFAULT_ROTATION,
   GLOBE_DRAG_SENSITIVITY,
   GLOBE_PADDING,
   GLOBE_SIZE,
+  KEYBOARD_STEP_DEFAULT,
   MAP_HEIGHT,
   MAP_PADDING,
   MAP_WIDTH,
+  MAP_ZOOM_MAX,
+  MAP_ZOOM_MIN,
+  MAP_ZOOM_STEP,
   MAX_GLOBE_TILT,
+  MAX_LATITUDE,
   PLANET_BASE_RADIUS,
   PLANET_DEFAULT_ROTATION,
   PLANET_PREVIEW_SIZE,
+  PLANET_TWILIGHT_RADII,
   PLANET_ZOOM_MAX,
   PLANET_ZOOM_MIN,
   PLANET_ZOOM_STEP,
+  SMALL_COUNTRY_AREA_KM2,
   SOLAR_BASE_URL,
+  TISSOT_SPACING_DEFAULT,
 } from './constants'
-import { useCountryData } from './hooks/useCountryData'
+import { getZoomDetailLevel, useCountryData } from './hooks/useCountryData'
+import { useDistortionHeatmap } from './hooks/useDistortionHeatmap'
+import { useMapZoom } from './hooks/useMapZoom'
+import { useRegionData } from './hooks/useRegionData'
+import { resolveTourCountry, useTour } from './hooks/useTour'
+import { useMeasurement } from './hooks/useMeasurement'
+import { useCustomBody } from './hooks/useCustomBody'
 import { useFullscreenState } from './hooks/useFullscreenState'
 import { useModifierKey } from './hooks/useModifierKey'
 import { usePlanetTexture } from './hooks/usePlanetTexture'
@@ -70,14 +107,46 @@ import {
   formatLongitude,
   formatPlanetRatio,
   formatScale,
-  getMercatorScale,
 } from './utils/formatters'
 import {
   clamp,
+  createCountryRotation,
   createSphericalRotation,
+  getDestination,
+  getInitialBearing,
+  normalizeBearing,
   rotateGeometry,
   scaleGeometry,
+  wrapLongitude,
 } from './utils/geo'
+import { getArrowKeyDelta } from './utils/keyboard'
+import {
+  decodeMapState,
+  encodeMapState,
+  getSharedIdKind,
+} from './utils/shareState'
+import { resolveComparisonMeta } from './utils/comparison'
+import { createCountryDatum } from './utils/country'
+import { createMapPng } from './utils/mapExport'
+import {
+  createDiskSquash,
+  getApparentAxisRatio,
+  getBodyExtent,
+} from './utils/planetShape'
+import {
+  DEFAULT_MAP_PROJECTION,
+  createMapProjection,
+  getMapMaxLatitude,
+  getMapProjectionOption,
+  getLocalDistortion,
+  getProjectionDistortion,
+  getProjectionScale,
+  isOnMapProjection,
+} from './utils/projections'
+import { parseShapeFile } from './utils/shapeImport'
+import { downloadDataUrl } from './utils/svgExport'
+import { createTissotCircles } from './utils/tissot'
+import { BUILT_IN_TOURS, parseTourFile } from './utils/tours'
 import GlobeView from './components/GlobeView'
 import MapView from './components/MapView'
 import EquatorShiftView from './components/EquatorShiftView'
@@ -266,6 +335,51 @@ const AnalemmaRoute = ({
   )
 }
 
+// Keep a country's centroid inside the draggable area of the true-size map.
+const clampMapOffset = (
+  centroid: [number, number],
+  offset: { x: number; y: number }
+) => {
+  const clampedX = clamp(
+    centroid[0] + offset.x,
+    MAP_PADDING,
+    MAP_WIDTH - MAP_PADDING
+  )
+  const clampedY = clamp(
+    centroid[1] + offset.y,
+    MAP_PADDING,
+    MAP_HEIGHT - MAP_PADDING
+  )
+  return { x: clampedX - centroid[0], y: clampedY - centroid[1] }
+}
+
+type DragMember = {
+  id: string
+  origin: { x: number; y: number }
+  centroid: [number, number]
+}
+
+// Limits a group drag so every member's centroid stays on the map; the whole
+// group stops together instead of members bunching up at the edge.
+const clampGroupDelta = (members: DragMember[], dx: number, dy: number) => {
+  const positions = members.map(({ origin, centroid }) => ({
+    x: centroid[0] + origin.x,
+    y: centroid[1] + origin.y,
+  }))
+  const minX = Math.max(...positions.map((point) => MAP_PADDING - point.x))
+  const maxX = Math.min(
+    ...positions.map((point) => MAP_WIDTH - MAP_PADDING - point.x)
+  )
+  const minY = Math.max(...positions.map((point) => MAP_PADDING - point.y))
+  const maxY = Math.min(
+    ...positions.map((point) => MAP_HEIGHT - MAP_PADDING - point.y)
+  )
+  return {
+    x: clamp(dx, Math.min(minX, 0), Math.max(maxX, 0)),
+    y: clamp(dy, Math.min(minY, 0), Math.max(maxY, 0)),
+  }
+}
+
 type ViewSelectionState = {
   selectedId: string | null
   draggableIds: string[]
@@ -276,8 +390,8 @@ type DragState = {
   id: string
   pointerId: number
   start: { x: number; y: number }
-  origin: { x: number; y: number }
-  centroid: [number, number]
+  members: DragMember[]
+  unitsPerPixel: number
 }
 
 type GlobeDragState = {
@@ -290,7 +404,12 @@ type GlobeCountryDragState = {
   id: string
   pointerId: number
   startLonLat: LonLat
-  startCentroid: LonLat
+  startCentroids: Array<{ id: string; centroid: LonLat }>
+}
+
+type GlobeBearingDragState = {
+  id: string
+  pointerId: number
 }
 
 type PlanetDragState = {
@@ -300,7 +419,40 @@ type PlanetDragState = {
 }
 
 function App() {
+  const location = useLocation()
+  const navigate = useNavigate()
+  // Read the shared arrangement once; later hash edits must not reload the map.
+  const [initialShareState] = useState<SharedMapState | null>(() =>
+    decodeMapState(location.hash)
+  )
   const [selectedId, setSelectedId] = useState<string | null>(null)
+  // Members of a shift/ctrl-click selection; only counts while it contains
+  // selectedId, so any plain selection quietly falls back to one country.
+  const [groupIds, setGroupIds] = useState<string[]>([])
+  const selectionIds = useMemo(
+    () =>
+      selectedId
+        ? groupIds.includes(selectedId)
+          ? groupIds
+          : [selectedId]
+        : [],
+    [selectedId, groupIds]
+  )
+  const toggleSelectionMember = (id: string) => {
+    if (!selectionIds.includes(id)) {
+      setGroupIds([...selectionIds, id])
+      setSelectedId(id)
+      return
+    }
+    const next = selectionIds.filter((entry) => entry !== id)
+    if (next.length === 0) {
+      return
+    }
+    setGroupIds(next)
+    if (id === selectedId) {
+      setSelectedId(next[next.length - 1])
+    }
+  }
   const [draggingId, setDraggingId] = useState<string | null>(null)
   const [draggableIds, setDraggableIds] = useState<string[]>([])
   const [countryFilter, setCountryFilter] = useState('')
@@ -308,7 +460,7 @@ function App() {
     'rotate'
   )
   const [solarSystemEnabled, setSolarSystemEnabled] = useState(true)
-  const [activePlanetId, setActivePlanetId] = useState<Planet['id']>('mars')
+  const [activePlanetId, setActivePlanetId] = useState<BodyId>('mars')
   const [planetPlacements, setPlanetPlacements] = useState<PlanetPlacement[]>(
     []
   )
@@ -316,6 +468,10 @@ function App() {
     PLANET_DEFAULT_ROTATION
   )
   const [planetZoom, setPlanetZoom] = useState(1)
+  const [planetLighting, setPlanetLighting] = useState<PlanetLighting>({
+    enabled: false,
+    subsolar: [0, 0],
+  })
   const [globeRotation, setGlobeRotation] = useState<Vec3>(
     GLOBE_DEFAULT_ROTATION
   )
@@ -324,10 +480,23 @@ function App() {
   )
   const [globeDragging, setGlobeDragging] = useState(false)
   const [planetDragging, setPlanetDragging] = useState(false)
+  const [keyboardStep, setKeyboardStep] = useState(KEYBOARD_STEP_DEFAULT)
+  const [liveAnnouncement, setLiveAnnouncement] = useState('')
+  const [stampSelection, setStampSelection] = useState<StampSelection | null>(
+    null
+  )
+  const [customTours, setCustomTours] = useState<Tour[]>([])
+  const [tourImportStatus, setTourImportStatus] =
+    useState<StatusMessage | null>(null)
+  const [shapeImportStatus, setShapeImportStatus] =
+    useState<StatusMessage | null>(null)
+  const [exportStatus, setExportStatus] = useState<StatusMessage | null>(null)
+  const customShapeCount = useRef(0)
 
   const dragState = useRef<DragState | null>(null)
   const globeDragState = useRef<GlobeDragState | null>(null)
   const globeCountryDragState = useRef<GlobeCountryDragState | null>(null)
+  const globeBearingDragState = useRef<GlobeBearingDragState | null>(null)
   const planetCountryDragState = useRef<{
     id: string
     pointerId: number
@@ -337,6 +506,7 @@ function App() {
   const planetRotationPending = useRef<Vec3 | null>(null)
   const globeFrameRef = useRef<HTMLDivElement | null>(null)
   const globeSvgRef = useRef<SVGSVGElement | null>(null)
+  const mapSvgRef = useRef<SVGSVGElement | null>(null)
   const planetSvgRef = useRef<SVGSVGElement | null>(null)
   const planetInsetRef = useRef<HTMLDivElement | null>(null)
   const areaFormatter = useMemo(
@@ -345,13 +515,30 @@ function App() {
   )
 
 
+  const [mapProjectionId, setMapProjectionId] = useState<MapProjectionId>(
+    DEFAULT_MAP_PROJECTION
+  )
   const projection = useMemo(
+    () => createMapProjection(mapProjectionId),
+    [mapProjectionId]
+  )
+  const [tissotSettings, setTissotSettings] = useState<TissotSettings>({
+    enabled: false,
+    spacing: TISSOT_SPACING_DEFAULT,
+  })
+  const tissotCircles = useMemo(
     () =>
-      d3
-        .geoMercator()
-        .scale(175)
-        .translate([MAP_WIDTH / 2, MAP_HEIGHT / 2 + 10]),
-    []
+      tissotSettings.enabled ? createTissotCircles(tissotSettings.spacing) : [],
+    [tissotSettings]
+  )
+  const [heatmapEnabled, setHeatmapEnabled] = useState(false)
+  const getMapTissotDistortion = useCallback(
+    (center: LonLat) => getProjectionDistortion(mapProjectionId, center),
+    [mapProjectionId]
+  )
+  const mapMaxLatitude = Math.min(
+    MAX_LATITUDE,
+    getMapMaxLatitude(mapProjectionId)
   )
 
   const {
@@ -361,7 +548,50 @@ function App() {
     loading,
     error,
     initialSelection,
-  } = useCountryData(projection)
+    lateSharedSelection,
+    requestDetail,
+    detailError,
+  } = useCountryData(projection, initialShareState)
+  // A shared link that names a state or province turns the region layer on
+  // so the hook can place it once the shapes load.
+  const [regionsEnabled, setRegionsEnabled] = useState(
+    () =>
+      initialShareState?.countries.some(
+        (entry) => getSharedIdKind(entry.id) === 'region'
+      ) ?? false
+  )
+  const {
+    regions,
+    loading: regionsLoading,
+    error: regionsError,
+  } = useRegionData(projection, regionsEnabled)
+
+  useEffect(() => {
+    if (loading || regions.length === 0) {
+      return
+    }
+    setCountries((prev) =>
+      prev.some((country) => country.kind === 'region')
+        ? prev
+        : [...prev, ...regions].sort((a, b) => a.name.localeCompare(b.name))
+    )
+  }, [loading, regions, setCountries])
+
+  const getCurrentCoordinates = useCallback(
+    (country: CountryDatum): LonLat => {
+      const [cx, cy] = country.centroidScreen
+      const currentPoint: [number, number] = [
+        cx + country.offset.x,
+        cy + country.offset.y,
+      ]
+      const inverted = projection.invert?.(currentPoint)
+      if (!inverted) {
+        return country.originalCentroid
+      }
+      return [inverted[0], inverted[1]]
+    },
+    [projection]
+  )
 
   const antarcticaId = useMemo(() => {
     const directMatch = countries.find((country) => country.id === '10')
@@ -396,16 +626,72 @@ function App() {
     [globeProjection]
   )
 
+  const getGlobeTissotDistortion = useCallback(
+    (center: LonLat) => getLocalDistortion(globeProjection, center),
+    [globeProjection]
+  )
+
+  const {
+    body: customBody,
+    textureStatus: customBodyTextureStatus,
+    update: updateCustomBody,
+    importTexture: importCustomBodyTexture,
+    clearTexture: clearCustomBodyTexture,
+  } = useCustomBody()
+  const activePlanet = useMemo<SolarBody>(() => {
+    if (activePlanetId === CUSTOM_BODY_ID) {
+      return {
+        id: CUSTOM_BODY_ID,
+        ...customBody,
+        name: customBody.name.trim() || 'Custom body',
+        oblateness: 0,
+        rings: null,
+        selfLuminous: false,
+      }
+    }
+    const planet =
+      PLANETS.find((entry) => entry.id === activePlanetId) ?? PLANETS[0]
+    const texture = PLANET_TEXTURES[planet.id]
+    const skyBody = SKY_BODIES.find((entry) => entry.id === planet.id)
+    return {
+      id: planet.id,
+      name: planet.name,
+      diameterKm: planet.diameterKm,
+      color: PLANET_COLORS[planet.id],
+      textureUrl: texture ? `${SOLAR_BASE_URL}${texture}` : null,
+      oblateness: 'oblateness' in planet ? planet.oblateness : 0,
+      rings: skyBody?.rings ?? null,
+      selfLuminous: skyBody?.selfLuminous ?? false,
+    }
+  }, [activePlanetId, customBody])
+  const planetScaleFactor = useMemo(
+    () => EARTH_DIAMETER_KM / activePlanet.diameterKm,
+    [activePlanet]
+  )
+  const planetRatio = useMemo(
+    () => activePlanet.diameterKm / EARTH_DIAMETER_KM,
+    [activePlanet]
+  )
+  const planetRadius =
+    (PLANET_BASE_RADIUS * planetZoom) / getBodyExtent(activePlanet)
+  // Rotation's second angle tips the pole; its negation is the latitude the
+  // viewer looks down from.
+  const planetViewLatitude = -planetRotation[1]
+  const planetAxisRatio = getApparentAxisRatio(
+    activePlanet.oblateness,
+    planetViewLatitude
+  )
+
   const planetProjection = useMemo(
     () =>
       d3
         .geoOrthographic()
-        .scale(PLANET_BASE_RADIUS * planetZoom)
+        .scale(planetRadius)
         .translate([PLANET_PREVIEW_SIZE / 2, PLANET_PREVIEW_SIZE / 2])
         .clipAngle(90)
         .precision(0.3)
         .rotate(planetRotation),
-    [planetRotation, planetZoom]
+    [planetRotation, planetRadius]
   )
 
   const planetPathGenerator = useMemo(
@@ -419,6 +705,28 @@ function App() {
     []
   )
   const planetGraticule = useMemo(() => d3.geoGraticule10(), [])
+
+  const planetNightSide = useMemo(() => {
+    if (!planetLighting.enabled || activePlanet.selfLuminous) {
+      return []
+    }
+    const [lon, lat] = planetLighting.subsolar
+    const antisolar: LonLat = [wrapLongitude(lon + 180), -lat]
+    return PLANET_TWILIGHT_RADII.map((radius) =>
+      d3.geoCircle().center(antisolar).radius(radius)()
+    )
+  }, [planetLighting, activePlanet.selfLuminous])
+
+  const planetRings = useMemo(() => {
+    if (!activePlanet.rings) {
+      return null
+    }
+    const kmToPixels = planetRadius / (activePlanet.diameterKm / 2)
+    return {
+      innerRadius: activePlanet.rings.innerKm * kmToPixels,
+      outerRadius: activePlanet.rings.outerKm * kmToPixels,
+    }
+  }, [activePlanet, planetRadius])
   const latLines = useMemo(() => d3.range(-80, 81, 20), [])
 
   const mapLatLines = useMemo(
@@ -464,7 +772,6 @@ function App() {
     }
   }, [setPlanetDragging, setGlobeDragging])
 
-  const location = useLocation()
   const activeNavItemRef = useRef<HTMLAnchorElement | null>(null)
   const isEquatorLab = location.pathname.startsWith(CUSTOM_MERCATOR_PATH)
   const isGlobePage = location.pathname.startsWith(TRUE_SIZE_GLOBE_PATH)
@@ -476,19 +783,19 @@ function App() {
   const comparisonSlug = location.pathname.startsWith(COMPARE_PATH_PREFIX)
     ? location.pathname.slice(COMPARE_PATH_PREFIX.length).split('/')[0]
     : null
-  const comparisonMeta = useMemo(() => {
-    if (!comparisonSlug) {
-      return null
-    }
-    if (
-      Object.prototype.hasOwnProperty.call(seoMeta.comparisons, comparisonSlug)
-    ) {
-      return seoMeta.comparisons[
-        comparisonSlug as keyof typeof seoMeta.comparisons
-      ]
+  const comparisonMeta = useMemo(
+    () => (comparisonSlug ? resolveComparisonMeta(comparisonSlug) : null),
+    [comparisonSlug]
+  )
+
+  // vercel.json sends every `<a>-vs-<b>` path to the comparison shell, so a
+  // slug that names no real countries is sent on to the 404 page rather than
+  // rendering the homepage under a made-up URL.
+  useEffect(() => {
+    if (comparisonSlug && !comparisonMeta) {
+      window.location.replace(`${import.meta.env.BASE_URL}404`)
     }
-    return null
-  }, [comparisonSlug])
+  }, [comparisonMeta, comparisonSlug])
   const isTrueSizePage =
     !isEquatorLab &&
     !isSeaLevelPage &&
@@ -500,6 +807,73 @@ function App() {
     isTrueSizePage && isGlobePage ? 'globe' : 'map'
   const isMapView = activeView === 'map'
   const shouldRenderSeoContent = isTrueSizePage && isMapView
+  const {
+    transform: mapTransform,
+    isPanning: mapPanning,
+    handleBackgroundPointerDown: handleMapBackgroundPointerDown,
+    getProjectionUnitsPerPixel,
+    toMapPoint,
+    zoomBy: zoomMapBy,
+    resetZoom: resetMapZoom,
+  } = useMapZoom({
+    svgRef: mapSvgRef,
+    width: MAP_WIDTH,
+    height: MAP_HEIGHT,
+    active: isTrueSizePage && isMapView && !loading && !error,
+  })
+
+  const measurement = useMeasurement()
+
+  const getMapLonLatFromClient = useCallback(
+    (clientX: number, clientY: number): LonLat | null => {
+      const point = toMapPoint(clientX, clientY)
+      if (
+        !point ||
+        !isOnMapProjection(projection, mapMaxLatitude, [point.x, point.y])
+      ) {
+        return null
+      }
+      const inverted = projection.invert?.([point.x, point.y])
+      return inverted ? [inverted[0], inverted[1]] : null
+    },
+    [toMapPoint, projection, mapMaxLatitude]
+  )
+
+  const getMapArealScale = useCallback(
+    (point: [number, number]) => {
+      if (!isOnMapProjection(projection, mapMaxLatitude, point)) {
+        return null
+      }
+      const lonLat = projection.invert?.(point)
+      return lonLat
+        ? getProjectionDistortion(mapProjectionId, [lonLat[0], lonLat[1]])
+            .areal
+        : null
+    },
+    [projection, mapMaxLatitude, mapProjectionId]
+  )
+  const mapHeatmapUrl = useDistortionHeatmap(
+    heatmapEnabled && isTrueSizePage && isMapView,
+    MAP_WIDTH,
+    MAP_HEIGHT,
+    getMapArealScale
+  )
+
+  // A zoomed crop of one projection means little in another, so switching
+  // starts from the whole map again.
+  const changeMapProjection = (id: MapProjectionId) => {
+    resetMapZoom()
+    setMapProjectionId(id)
+  }
+
+  const zoomDetailLevel = getZoomDetailLevel(mapTransform.k)
+  useEffect(() => {
+    if (zoomDetailLevel === '10m') {
+      requestDetail('10m', draggableIds)
+    } else if (zoomDetailLevel === '50m') {
+      requestDetail('50m')
+    }
+  }, [zoomDetailLevel, draggableIds, requestDetail])
 
   useEffect(() => {
     const activeItem = activeNavItemRef.current
@@ -520,6 +894,13 @@ function App() {
   const savedEquatorStateRef = useRef<ViewSelectionState | null>(null)
   const lastIsEquatorLabRef = useRef(isEquatorLab)
   const appliedComparisonSlugRef = useRef<string | null>(null)
+  // A shared link on a comparison page carries its own arrangement, so the
+  // page's preset set must not replace it on first load.
+  const sharedComparisonSlugRef = useRef<string | null>(
+    initialShareState && initialShareState.countries.length > 0
+      ? comparisonSlug
+      : null
+  )
   const pageMeta = useMemo(() => {
     if (comparisonMeta) {
       return comparisonMeta
@@ -547,7 +928,62 @@ function App() {
     }
     return seoMeta.pages.map
   }, [comparisonMeta, isAnalemmaPage, isAsteroidPage, isNuclearPage, isEquatorLab, isGlobePage, isPlanetSkyPage, isSeaLevelPage])
-  const shareUrl = pageMeta.canonical
+  const shareHash = useMemo(() => {
+    if (!isTrueSizePage || loading || countries.length === 0) {
+      return ''
+    }
+    const countriesById = new Map(
+      countries.map((country) => [country.id, country])
+    )
+    // Imported shapes live only in this session, so links leave them out.
+    const sharedCountries = draggableIds
+      .map((id) => countriesById.get(id))
+      .filter(
+        (country): country is CountryDatum =>
+          Boolean(country) && country?.kind !== 'custom'
+      )
+      .map((country) => {
+        const [originalLon, originalLat] = country.originalCentroid
+        const [globeLon, globeLat] = country.globeCentroid
+        const isMapMoved = country.offset.x !== 0 || country.offset.y !== 0
+        const isGlobeMoved =
+          globeLon !== originalLon || globeLat !== originalLat
+        return {
+          id: country.id,
+          mapPosition: isMapMoved ? getCurrentCoordinates(country) : null,
+          globePosition: isGlobeMoved ? country.globeCentroid : null,
+          bearing: country.bearing,
+        }
+      })
+    return encodeMapState({
+      view: isGlobePage ? 'globe' : 'map',
+      selectedId:
+        selectedId && countriesById.get(selectedId)?.kind !== 'custom'
+          ? selectedId
+          : null,
+      countries: sharedCountries,
+    })
+  }, [
+    countries,
+    draggableIds,
+    getCurrentCoordinates,
+    isGlobePage,
+    isTrueSizePage,
+    loading,
+    selectedId,
+  ])
+  const shareUrl = shareHash
+    ? `${pageMeta.canonical}${shareHash}`
+    : pageMeta.canonical
+  const shareOmitsImportedShapes = useMemo(
+    () =>
+      isTrueSizePage &&
+      countries.some(
+        (country) =>
+          country.kind === 'custom' && draggableIds.includes(country.id)
+      ),
+    [countries, draggableIds, isTrueSizePage]
+  )
   const structuredData = useMemo(() => {
     const breadcrumbs = [
       {
@@ -568,7 +1004,9 @@ function App() {
       breadcrumbs.push({
         '@type': 'ListItem',
         position: 3,
-        name: `${comparisonMeta.primaryName} vs ${comparisonMeta.secondaryName}`,
+        name: comparisonMeta.members
+          ? comparisonMeta.members.map((member) => member.name).join(' vs ')
+          : `${comparisonMeta.primaryName} vs ${comparisonMeta.secondaryName}`,
         item: comparisonMeta.canonical,
       })
     }
@@ -794,6 +1232,24 @@ function App() {
     }
   }, [isEquatorLab, selectedId, draggableIds, countryFilter])
 
+  useEffect(() => {
+    if (!initialShareState || !isTrueSizePage) {
+      return
+    }
+    const wantsGlobe = initialShareState.view === 'globe'
+    if (wantsGlobe !== isGlobePage) {
+      navigate(
+        {
+          pathname: wantsGlobe ? TRUE_SIZE_GLOBE_PATH : '/',
+          hash: location.hash,
+        },
+        { replace: true }
+      )
+    }
+    // Only the first render decides the shared view; later tab clicks win.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialShareState])
+
   useEffect(() => {
     if (copyStatus === 'idle') {
       return
@@ -829,7 +1285,17 @@ function App() {
       return
     }
 
-    if (comparisonCountryIds.length > 0) {
+    if (
+      sharedComparisonSlugRef.current &&
+      sharedComparisonSlugRef.current !== comparisonSlug
+    ) {
+      sharedComparisonSlugRef.current = null
+    }
+
+    if (
+      comparisonCountryIds.length > 0 &&
+      sharedComparisonSlugRef.current !== comparisonSlug
+    ) {
       const availableIds = new Set(countries.map((country) => country.id))
       const availableComparisonIds = comparisonCountryIds.filter((id) =>
         availableIds.has(id)
@@ -867,6 +1333,19 @@ function App() {
     draggableIds,
   ])
 
+  useEffect(() => {
+    if (!lateSharedSelection) {
+      return
+    }
+    setDraggableIds((prev) => [
+      ...prev,
+      ...lateSharedSelection.draggableIds.filter((id) => !prev.includes(id)),
+    ])
+    if (lateSharedSelection.selectedId) {
+      setSelectedId(lateSharedSelection.selectedId)
+    }
+  }, [lateSharedSelection])
+
   const globeModifierPressed = useModifierKey(
     isTrueSizePage && activeView === 'globe',
     clearGlobeModifier
@@ -878,27 +1357,6 @@ function App() {
     toggleFullscreen: toggleGlobeFullscreen,
   } = useFullscreenState(fullscreenView, globeFrameRef)
 
-  const activePlanet = useMemo(
-    () => PLANETS.find((planet) => planet.id === activePlanetId) ?? PLANETS[0],
-    [activePlanetId]
-  )
-  const planetScaleFactor = useMemo(
-    () => EARTH_DIAMETER_KM / activePlanet.diameterKm,
-    [activePlanet]
-  )
-  const planetRatio = useMemo(
-    () => activePlanet.diameterKm / EARTH_DIAMETER_KM,
-    [activePlanet]
-  )
-  const planetTexture = useMemo(
-    () => PLANET_TEXTURES[activePlanet.id] ?? null,
-    [activePlanet.id]
-  )
-  const planetTextureUrl = useMemo(
-    () => (planetTexture ? `${SOLAR_BASE_URL}${planetTexture}` : null),
-    [planetTexture]
-  )
-  const planetRadius = PLANET_BASE_RADIUS * planetZoom
   const upsertPlanetPlacement = useCallback(
     (id: string, centroid: LonLat) => {
       setPlanetPlacements((prev) => {
@@ -917,9 +1375,11 @@ function App() {
   const canPlanetZoomOut = planetZoom > PLANET_ZOOM_MIN + 0.001
 
   const { planetCanvasRef } = usePlanetTexture({
-    textureUrl: planetTextureUrl,
+    textureUrl: activePlanet.textureUrl,
+    fallbackColor: activePlanet.color,
     projection: planetProjection,
     radius: planetRadius,
+    axisRatio: planetAxisRatio,
     previewSize: PLANET_PREVIEW_SIZE,
     solarSystemEnabled,
     loading,
@@ -934,12 +1394,17 @@ function App() {
 
   const filteredCountries = useMemo(() => {
     const query = countryFilter.trim().toLowerCase()
+    const selectedSet = new Set(draggableIds)
+    const visible = regionsEnabled
+      ? countries
+      : countries.filter(
+          (country) => country.kind !== 'region' || selectedSet.has(country.id)
+        )
     const base = query
-      ? countries.filter((country) =>
+      ? visible.filter((country) =>
           country.name.toLowerCase().includes(query)
         )
-      : countries
-    const selectedSet = new Set(draggableIds)
+      : visible
     return [...base].sort((a, b) => {
       const aSelected = selectedSet.has(a.id) ? 0 : 1
       const bSelected = selectedSet.has(b.id) ? 0 : 1
@@ -948,7 +1413,7 @@ function App() {
       }
       return a.name.localeCompare(b.name)
     })
-  }, [countries, countryFilter, draggableIds])
+  }, [countries, countryFilter, draggableIds, regionsEnabled])
 
   const orderedCountries = useMemo(() => {
     const items = [...draggableCountries]
@@ -958,29 +1423,14 @@ function App() {
     return items
   }, [draggableCountries, draggingId, selectedId])
 
-  const getCurrentCoordinates = useCallback(
-    (country: CountryDatum): LonLat => {
-      const [cx, cy] = country.centroidScreen
-      const currentPoint: [number, number] = [
-        cx + country.offset.x,
-        cy + country.offset.y,
-      ]
-      const inverted = projection.invert?.(currentPoint)
-      if (!inverted) {
-        return country.originalCentroid
-      }
-      return [inverted[0], inverted[1]]
-    },
-    [projection]
-  )
-
   const mapRenderedCountries = useMemo<MapRenderedCountry[]>(
     () =>
       orderedCountries.map((country) => {
         const currentCoordinates = getCurrentCoordinates(country)
-        const rotation = createSphericalRotation(
+        const rotation = createCountryRotation(
           country.originalCentroid,
-          currentCoordinates
+          currentCoordinates,
+          country.bearing
         )
         const rotatedGeometry = country.feature.geometry
           ? rotateGeometry(country.feature.geometry, rotation)
@@ -993,15 +1443,77 @@ function App() {
           country,
           feature: rotatedFeature,
           isDraggable: draggableIds.includes(country.id),
-          isSelected: selectedId === country.id,
+          isSelected: selectionIds.includes(country.id),
           isDragging: draggingId === country.id,
         }
       }),
-    [orderedCountries, draggableIds, selectedId, draggingId, getCurrentCoordinates]
+    [orderedCountries, draggableIds, selectionIds, draggingId, getCurrentCoordinates]
   )
 
   const selectedCountry =
     countries.find((country) => country.id === selectedId) ?? null
+  const selectionGroup = useMemo(
+    () => countries.filter((country) => selectionIds.includes(country.id)),
+    [countries, selectionIds]
+  )
+
+  // Small countries are barely a few pixels at 1:110m, so selecting one pulls
+  // in the 1:10m outline for just that country.
+  const selectedNeedsDetail =
+    selectedCountry?.detail === '110m' &&
+    selectedCountry.area !== null &&
+    selectedCountry.area < SMALL_COUNTRY_AREA_KM2
+  useEffect(() => {
+    if (selectedNeedsDetail && selectedId) {
+      requestDetail('10m', [selectedId])
+    }
+  }, [selectedNeedsDetail, selectedId, requestDetail])
+
+  // Countries like Singapore are missing from the 110m layer entirely; an
+  // empty search falls back to the 50m layer before giving up.
+  const hasFilterMatches = filteredCountries.length > 0
+  useEffect(() => {
+    if (countryFilter.trim() && !hasFilterMatches) {
+      requestDetail('50m')
+    }
+  }, [countryFilter, hasFilterMatches, requestDetail])
+
+  // Stamp mode pairs two countries and shows each outline rotated onto the
+  // other's real centroid, so the projection alone decides the drawn size.
+  const stampOverlays = useMemo<StampOverlay[]>(() => {
+    if (!stampSelection) {
+      return []
+    }
+    const source = countries.find(
+      (country) => country.id === stampSelection.sourceId
+    )
+    const target = countries.find(
+      (country) => country.id === stampSelection.targetId
+    )
+    if (!source || !target) {
+      return []
+    }
+    return [
+      [source, target],
+      [target, source],
+    ].map(([country, anchor]) => {
+      const rotation = createCountryRotation(
+        country.originalCentroid,
+        anchor.originalCentroid,
+        country.bearing
+      )
+      return {
+        country,
+        target: anchor,
+        feature: {
+          ...country.feature,
+          geometry: country.feature.geometry
+            ? rotateGeometry(country.feature.geometry, rotation)
+            : country.feature.geometry,
+        },
+      }
+    })
+  }, [countries, stampSelection])
 
   const focusOnCountry = useCallback(
     (country: CountryDatum) => {
@@ -1019,6 +1531,7 @@ function App() {
     setPlanetPlacements([])
     globeDragState.current = null
     globeCountryDragState.current = null
+    globeBearingDragState.current = null
     planetCountryDragState.current = null
     planetDragState.current = null
     if (planetRotationFrame.current !== null) {
@@ -1032,6 +1545,7 @@ function App() {
       prev.map((country) => ({
         ...country,
         globeCentroid: country.originalCentroid,
+        bearing: 0,
       }))
     )
   }, [setCountries])
@@ -1057,45 +1571,134 @@ function App() {
     })
   }
 
+  // Enter on a focused shape; the list checkbox covers the other direction,
+  // since only draggable countries are drawn.
+  const toggleDraggableFromKeyboard = (country: CountryDatum) => {
+    const isDraggable = draggableIds.includes(country.id)
+    toggleDraggable(country.id)
+    setLiveAnnouncement(
+      isDraggable
+        ? `${country.name} is no longer draggable`
+        : `${country.name} is draggable`
+    )
+  }
+
+  const importShapes = async (file: File) => {
+    try {
+      const shapes = await parseShapeFile(file)
+      const imported = shapes.map(({ name, feature }) => {
+        customShapeCount.current += 1
+        return createCountryDatum(
+          feature,
+          {
+            id: `custom-${customShapeCount.current}`,
+            name,
+            reportedArea: null,
+            kind: 'custom',
+          },
+          projection
+        )
+      })
+      const importedIds = imported.map((country) => country.id)
+      setCountries((prev) => [...prev, ...imported])
+      setDraggableIds((prev) => [...prev, ...importedIds])
+      setSelectedId(importedIds[0])
+      setShapeImportStatus({
+        message: `Added ${imported.length} shape${
+          imported.length === 1 ? '' : 's'
+        } from ${file.name}.`,
+        isError: false,
+      })
+    } catch (err) {
+      setShapeImportStatus({
+        message:
+          err instanceof Error ? err.message : 'Unable to read that file.',
+        isError: true,
+      })
+    }
+  }
+
+  const exportMapPng = async () => {
+    if (!mapSvgRef.current) {
+      return
+    }
+    setExportStatus(null)
+    try {
+      const dataUrl = await createMapPng(mapSvgRef.current, mapTransform)
+      if (dataUrl) {
+        downloadDataUrl(dataUrl, 'true-size-map.png')
+      }
+    } catch {
+      setExportStatus({
+        message: 'Unable to render the map as a PNG. Try again.',
+        isError: true,
+      })
+    }
+  }
+
   const resetPositions = () => {
     dragState.current = null
     setDraggingId(null)
     setCountries((prev) =>
-      prev.map((country) => ({ ...country, offset: { x: 0, y: 0 } }))
+      prev.map((country) => ({ ...country, offset: { x: 0, y: 0 }, bearing: 0 }))
     )
   }
 
-  const handleDragMove = useCallback(
-    (event: PointerEvent) => {
-      if (!dragState.current || dragState.current.pointerId !== event.pointerId) {
-        return
-      }
-      const dx = event.clientX - dragState.current.start.x
-      const dy = event.clientY - dragState.current.start.y
-      const nextOffset = {
-        x: dragState.current.origin.x + dx,
-        y: dragState.current.origin.y + dy,
+  const getPlacementOffset = useCallback(
+    (country: CountryDatum, [lon, lat]: LonLat) => {
+      const projected = projection([
+        lon,
+        clamp(lat, -mapMaxLatitude, mapMaxLatitude),
+      ])
+      if (!projected) {
+        return null
       }
+      return clampMapOffset(country.centroidScreen, {
+        x: projected[0] - country.centroidScreen[0],
+        y: projected[1] - country.centroidScreen[1],
+      })
+    },
+    [projection, mapMaxLatitude]
+  )
 
-      const centroidX = dragState.current.centroid[0]
-      const centroidY = dragState.current.centroid[1]
-      const clampedCentroidX = Math.min(
-        Math.max(centroidX + nextOffset.x, MAP_PADDING),
-        MAP_WIDTH - MAP_PADDING
-      )
-      const clampedCentroidY = Math.min(
-        Math.max(centroidY + nextOffset.y, MAP_PADDING),
-        MAP_HEIGHT - MAP_PADDING
+  const placeCountry = useCallback(
+    (id: string, target: LonLat) => {
+      setCountries((prev) =>
+        prev.map((country) => {
+          if (country.id !== id) {
+            return country
+          }
+          const offset = getPlacementOffset(country, target)
+          return offset ? { ...country, offset } : country
+        })
       )
-      const clampedOffset = {
-        x: clampedCentroidX - centroidX,
-        y: clampedCentroidY - centroidY,
+    },
+    [getPlacementOffset, setCountries]
+  )
+
+  const resetCountryPosition = useCallback(
+    (id: string) => {
+      if (dragState.current?.id === id) {
+        dragState.current = null
+        setDraggingId(null)
       }
+      setCountries((prev) =>
+        prev.map((country) =>
+          country.id === id
+            ? { ...country, offset: { x: 0, y: 0 }, bearing: 0 }
+            : country
+        )
+      )
+    },
+    [setCountries]
+  )
 
+  const setCountryBearing = useCallback(
+    (id: string, bearing: number) => {
       setCountries((prev) =>
         prev.map((country) =>
-          country.id === dragState.current?.id
-            ? { ...country, offset: clampedOffset }
+          country.id === id
+            ? { ...country, bearing: normalizeBearing(bearing) }
             : country
         )
       )
@@ -1103,6 +1706,125 @@ function App() {
     [setCountries]
   )
 
+  const showTourCountry = useCallback((id: string) => {
+    setSelectedId(id)
+    setDraggableIds((prev) => (prev.includes(id) ? prev : [...prev, id]))
+  }, [])
+
+  const {
+    tour: activeTour,
+    stepIndex: tourStepIndex,
+    playing: tourPlaying,
+    progress: tourProgress,
+    startTour,
+    play: playTour,
+    pause: pauseTour,
+    stepForward: stepTourForward,
+    stepBack: stepTourBack,
+    restart: restartTour,
+  } = useTour({
+    countries,
+    getCurrentCoordinates,
+    placeCountry,
+    resetCountryPosition,
+    onStepStart: showTourCountry,
+  })
+  const tours = useMemo(() => [...BUILT_IN_TOURS, ...customTours], [customTours])
+
+  useEffect(() => {
+    if (!isMapView) {
+      pauseTour()
+    }
+  }, [isMapView, pauseTour])
+
+  const importTour = async (file: File) => {
+    try {
+      const tour = await parseTourFile(file)
+      setCustomTours((prev) => [...prev, tour])
+      startTour(tour)
+      setTourImportStatus({
+        message: `Loaded "${tour.title}" with ${tour.steps.length} step${
+          tour.steps.length === 1 ? '' : 's'
+        }.`,
+        isError: false,
+      })
+    } catch (err) {
+      setTourImportStatus({
+        message:
+          err instanceof Error ? err.message : 'Unable to read that tour.',
+        isError: true,
+      })
+    }
+  }
+
+  const tourCaption = (() => {
+    const step = activeTour?.steps[tourStepIndex]
+    if (!activeTour || !step) {
+      return null
+    }
+    const country = resolveTourCountry(countries, step)
+    const current = country ? getCurrentCoordinates(country) : null
+    return {
+      text: step.caption,
+      step: `${tourStepIndex + 1} / ${activeTour.steps.length}`,
+      live:
+        country && current
+          ? `${country.name} at ${formatLatitude(current[1])}: ${formatScale(
+              getProjectionScale(
+                mapProjectionId,
+                country.originalCentroid,
+                current
+              )
+            )} of original size`
+          : `Country "${step.country}" is not on the map`,
+    }
+  })()
+
+  const handleDragMove = useCallback(
+    (event: PointerEvent) => {
+      if (!dragState.current || dragState.current.pointerId !== event.pointerId) {
+        return
+      }
+      const { unitsPerPixel, members } = dragState.current
+      // Every member moves by the same map delta, so the group keeps its
+      // layout while each shape is rescaled for its own latitude.
+      const delta = clampGroupDelta(
+        members,
+        (event.clientX - dragState.current.start.x) * unitsPerPixel,
+        (event.clientY - dragState.current.start.y) * unitsPerPixel
+      )
+      const nextOffsets = new Map(
+        members.map(({ id, origin }) => [
+          id,
+          { x: origin.x + delta.x, y: origin.y + delta.y },
+        ])
+      )
+      // Past the rim of an elliptical projection there is no latitude to
+      // land on, so the group waits at the edge.
+      const allOnMap = members.every(({ id, centroid }) => {
+        const offset = nextOffsets.get(id)
+        return (
+          offset &&
+          isOnMapProjection(projection, mapMaxLatitude, [
+            centroid[0] + offset.x,
+            centroid[1] + offset.y,
+          ])
+        )
+      })
+      if (!allOnMap) {
+        return
+      }
+
+      setCountries((prev) =>
+        prev.map((country) => {
+          const offset = nextOffsets.get(country.id)
+          return offset ? { ...country, offset } : country
+        })
+      )
+    },
+    [setCountries, projection, mapMaxLatitude]
+  )
+
   const handleDragEnd = useCallback((event: PointerEvent) => {
     if (!dragState.current || dragState.current.pointerId !== event.pointerId) {
       return
@@ -1116,21 +1838,79 @@ function App() {
     country: CountryDatum
   ) => {
     event.preventDefault()
+    // Keep the map from starting a pan underneath the country drag.
+    event.stopPropagation()
+    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+      toggleSelectionMember(country.id)
+      return
+    }
     if (!draggableIds.includes(country.id)) {
       setSelectedId(country.id)
+      setGroupIds([])
       return
     }
+    const memberIds = selectionIds.includes(country.id)
+      ? selectionIds.filter((id) => draggableIds.includes(id))
+      : [country.id]
+    if (!selectionIds.includes(country.id)) {
+      setGroupIds([])
+    }
     dragState.current = {
       id: country.id,
       pointerId: event.pointerId,
       start: { x: event.clientX, y: event.clientY },
-      origin: { x: country.offset.x, y: country.offset.y },
-      centroid: country.centroidScreen,
+      members: countries
+        .filter((entry) => memberIds.includes(entry.id))
+        .map((entry) => ({
+          id: entry.id,
+          origin: { x: entry.offset.x, y: entry.offset.y },
+          centroid: entry.centroidScreen,
+        })),
+      unitsPerPixel: getProjectionUnitsPerPixel(),
     }
     setSelectedId(country.id)
     setDraggingId(country.id)
   }
 
+  const handleCountryKeyDown = (
+    event: ReactKeyboardEvent<SVGGElement>,
+    country: CountryDatum
+  ) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      toggleDraggableFromKeyboard(country)
+      return
+    }
+    if (event.key === ' ') {
+      event.preventDefault()
+      setSelectedId(country.id)
+      return
+    }
+    const delta = getArrowKeyDelta(event.key, keyboardStep)
+    if (!delta) {
+      return
+    }
+    event.preventDefault()
+    const [lon, lat] = getCurrentCoordinates(country)
+    const offset = getPlacementOffset(country, [
+      wrapLongitude(lon + delta[0]),
+      lat + delta[1],
+    ])
+    if (!offset) {
+      return
+    }
+    const next = getCurrentCoordinates({ ...country, offset })
+    setSelectedId(country.id)
+    setCountries((prev) =>
+      prev.map((entry) => (entry.id === country.id ? { ...entry, offset } : entry))
+    )
+    setLiveAnnouncement(
+      `${country.name} at ${formatLatitude(next[1])}, ${formatScale(
+        getProjectionScale(mapProjectionId, country.originalCentroid, next)
+      )} of original size`
+    )
+  }
+
   useEffect(() => {
     if (!draggingId) {
       return
@@ -1183,7 +1963,9 @@ function App() {
         return null
       }
       const x = ((clientX - rect.left) / rect.width) * PLANET_PREVIEW_SIZE
-      const y = ((clientY - rect.top) / rect.height) * PLANET_PREVIEW_SIZE
+      const y = createDiskSquash(PLANET_PREVIEW_SIZE / 2, planetAxisRatio).invertY(
+        ((clientY - rect.top) / rect.height) * PLANET_PREVIEW_SIZE
+      )
       const radius = planetRadius
       const dx = x - PLANET_PREVIEW_SIZE / 2
       const dy = y - PLANET_PREVIEW_SIZE / 2
@@ -1196,7 +1978,7 @@ function App() {
       }
       return [inverted[0], inverted[1]]
     },
-    [planetProjection, planetRadius]
+    [planetProjection, planetRadius, planetAxisRatio]
   )
 
   const isClientInsidePlanetInset = useCallback(
@@ -1306,17 +2088,43 @@ function App() {
         if (!nextLonLat) {
           return
         }
+        // One rotation for the whole group keeps members' spherical layout.
         const rotation = createSphericalRotation(
           globeCountryDragState.current.startLonLat,
           nextLonLat
         )
-        const nextCentroid = rotation(
-          globeCountryDragState.current.startCentroid
+        const nextCentroids = new Map(
+          globeCountryDragState.current.startCentroids.map(
+            ({ id, centroid }) => [id, rotation(centroid)]
+          )
         )
+        setCountries((prev) =>
+          prev.map((country) => {
+            const globeCentroid = nextCentroids.get(country.id)
+            return globeCentroid ? { ...country, globeCentroid } : country
+          })
+        )
+        return
+      }
+
+      if (
+        globeBearingDragState.current &&
+        globeBearingDragState.current.pointerId === event.pointerId
+      ) {
+        const pointer = getGlobeLonLatFromClient(event.clientX, event.clientY)
+        if (!pointer) {
+          return
+        }
+        const { id } = globeBearingDragState.current
         setCountries((prev) =>
           prev.map((country) =>
-            country.id === globeCountryDragState.current?.id
-              ? { ...country, globeCentroid: nextCentroid }
+            country.id === id
+              ? {
+                  ...country,
+                  bearing: Math.round(
+                    getInitialBearing(country.globeCentroid, pointer)
+                  ),
+                }
               : country
           )
         )
@@ -1389,6 +2197,12 @@ function App() {
       }
       globeCountryDragState.current = null
     }
+    if (
+      globeBearingDragState.current &&
+      globeBearingDragState.current.pointerId === event.pointerId
+    ) {
+      globeBearingDragState.current = null
+    }
     if (
       planetCountryDragState.current &&
       planetCountryDragState.current.pointerId === event.pointerId
@@ -1398,6 +2212,7 @@ function App() {
     if (
       !globeDragState.current &&
       !globeCountryDragState.current &&
+      !globeBearingDragState.current &&
       !planetCountryDragState.current &&
       !planetDragState.current
     ) {
@@ -1447,6 +2262,12 @@ function App() {
     }
     event.preventDefault()
     event.stopPropagation()
+    // Ctrl/Cmd already switches the globe into country mode, so only Shift
+    // adds to the selection here.
+    if (event.shiftKey) {
+      toggleSelectionMember(country.id)
+      return
+    }
     const startLonLat = getGlobeLonLatFromClient(
       event.clientX,
       event.clientY
@@ -1454,6 +2275,12 @@ function App() {
     if (!startLonLat) {
       return
     }
+    const memberIds = selectionIds.includes(country.id)
+      ? selectionIds.filter((id) => draggableIds.includes(id))
+      : [country.id]
+    if (!selectionIds.includes(country.id)) {
+      setGroupIds([])
+    }
     globeDragState.current = null
     planetDragState.current = null
     setPlanetDragging(false)
@@ -1462,12 +2289,35 @@ function App() {
       id: country.id,
       pointerId: event.pointerId,
       startLonLat,
-      startCentroid: country.globeCentroid,
+      startCentroids: countries
+        .filter((entry) => memberIds.includes(entry.id))
+        .map((entry) => ({ id: entry.id, centroid: entry.globeCentroid })),
     }
     setSelectedId(country.id)
     setGlobeDragging(true)
   }
 
+  const handleGlobeBearingPointerDown = (
+    event: ReactPointerEvent<SVGCircleElement>,
+    country: CountryDatum
+  ) => {
+    if (event.button !== 0) {
+      return
+    }
+    event.preventDefault()
+    event.stopPropagation()
+    globeDragState.current = null
+    globeCountryDragState.current = null
+    planetCountryDragState.current = null
+    planetDragState.current = null
+    setPlanetDragging(false)
+    globeBearingDragState.current = {
+      id: country.id,
+      pointerId: event.pointerId,
+    }
+    setGlobeDragging(true)
+  }
+
   const handlePlanetCountryPointerDown = (
     event: ReactPointerEvent<SVGPathElement>,
     country: CountryDatum
@@ -1522,6 +2372,134 @@ function App() {
     setGlobeDragging(true)
   }
 
+  const nudgeLonLat = ([lon, lat]: LonLat, [dLon, dLat]: LonLat): LonLat => [
+    wrapLongitude(lon + dLon),
+    clamp(lat + dLat, -MAX_LATITUDE, MAX_LATITUDE),
+  ]
+
+  const handleGlobeCountryKeyDown = (
+    event: ReactKeyboardEvent<SVGPathElement>,
+    country: CountryDatum
+  ) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      event.stopPropagation()
+      toggleDraggableFromKeyboard(country)
+      return
+    }
+    if (event.key === ' ') {
+      event.preventDefault()
+      event.stopPropagation()
+      setSelectedId(country.id)
+      return
+    }
+    const delta = getArrowKeyDelta(event.key, keyboardStep)
+    if (!delta) {
+      return
+    }
+    event.preventDefault()
+    event.stopPropagation()
+    const nextCentroid = nudgeLonLat(country.globeCentroid, delta)
+    setSelectedId(country.id)
+    setCountries((prev) =>
+      prev.map((entry) =>
+        entry.id === country.id
+          ? { ...entry, globeCentroid: nextCentroid }
+          : entry
+      )
+    )
+    setLiveAnnouncement(
+      `${country.name} at ${formatLatitude(nextCentroid[1])}, ${formatLongitude(
+        nextCentroid[0]
+      )}`
+    )
+  }
+
+  const handlePlanetCountryKeyDown = (
+    event: ReactKeyboardEvent<SVGPathElement>,
+    country: CountryDatum
+  ) => {
+    const placement = planetPlacements.find((entry) => entry.id === country.id)
+    const delta = getArrowKeyDelta(event.key, keyboardStep)
+    if (!placement || !delta) {
+      return
+    }
+    event.preventDefault()
+    event.stopPropagation()
+    const nextCentroid = nudgeLonLat(placement.centroid, delta)
+    upsertPlanetPlacement(country.id, nextCentroid)
+    setSelectedId(country.id)
+    setLiveAnnouncement(
+      `${country.name} on ${activePlanet.name} at ${formatLatitude(
+        nextCentroid[1]
+      )}, ${formatLongitude(nextCentroid[0])}`
+    )
+  }
+
+  const placeSelectedOnPlanet = () => {
+    if (!selectedCountry || !solarSystemEnabled) {
+      return
+    }
+    const droppedId = selectedCountry.id
+    upsertPlanetPlacement(droppedId, [-planetRotation[0], -planetRotation[1]])
+    setCountries((prev) =>
+      prev.map((country) =>
+        country.id === droppedId
+          ? { ...country, globeCentroid: country.originalCentroid }
+          : country
+      )
+    )
+    setLiveAnnouncement(
+      `${selectedCountry.name} placed on ${activePlanet.name}`
+    )
+  }
+
+  // Arrow keys on the sphere itself turn it: right/up bring eastern and
+  // northern longitudes and latitudes toward the center of the view.
+  const rotateWithKeyboard = (
+    event: ReactKeyboardEvent<SVGSVGElement>,
+    rotation: Vec3,
+    label: string
+  ): Vec3 | null => {
+    const delta = getArrowKeyDelta(event.key, keyboardStep)
+    if (!delta) {
+      return null
+    }
+    event.preventDefault()
+    const nextRotation: Vec3 = [
+      wrapLongitude(rotation[0] - delta[0]),
+      clamp(rotation[1] - delta[1], -MAX_GLOBE_TILT, MAX_GLOBE_TILT),
+      0,
+    ]
+    setLiveAnnouncement(
+      `${label} centered on ${formatLatitude(
+        -nextRotation[1]
+      )}, ${formatLongitude(-nextRotation[0])}`
+    )
+    return nextRotation
+  }
+
+  const handleGlobeKeyDown = (event: ReactKeyboardEvent<SVGSVGElement>) => {
+    const nextRotation = rotateWithKeyboard(event, globeRotation, 'Globe')
+    if (nextRotation) {
+      setGlobeRotation(nextRotation)
+    }
+  }
+
+  const handlePlanetKeyDown = (event: ReactKeyboardEvent<SVGSVGElement>) => {
+    if (!solarSystemEnabled) {
+      return
+    }
+    const nextRotation = rotateWithKeyboard(
+      event,
+      planetRotation,
+      activePlanet.name
+    )
+    if (nextRotation) {
+      setPlanetRotation(nextRotation)
+    }
+  }
+
   useEffect(() => {
     if (!globeDragging) {
       return
@@ -1538,12 +2516,19 @@ function App() {
 
   const selectedDetails = selectedCountry
     ? (() => {
-        const [, currentLat] = getCurrentCoordinates(selectedCountry)
-        const originalLat = selectedCountry.originalCentroid[1]
+        const current = getCurrentCoordinates(selectedCountry)
+        const distortion = getProjectionDistortion(mapProjectionId, current)
         return {
-          originalLat,
-          currentLat,
-          currentScale: getMercatorScale(originalLat, currentLat),
+          originalLat: selectedCountry.originalCentroid[1],
+          currentLat: current[1],
+          currentLon: current[0],
+          currentScale: getProjectionScale(
+            mapProjectionId,
+            selectedCountry.originalCentroid,
+            current
+          ),
+          arealDistortion: distortion.areal,
+          angularDistortion: distortion.angular,
         }
       })()
     : null
@@ -1551,9 +2536,10 @@ function App() {
   const globeHighlightCountries = useMemo<GlobeHighlightCountry[]>(
     () =>
       draggableCountries.map((country) => {
-        const rotation = createSphericalRotation(
+        const rotation = createCountryRotation(
           country.originalCentroid,
-          country.globeCentroid
+          country.globeCentroid,
+          country.bearing
         )
         const rotatedGeometry = country.feature.geometry
           ? rotateGeometry(country.feature.geometry, rotation)
@@ -1570,6 +2556,47 @@ function App() {
     [draggableCountries]
   )
 
+  // Only the selected country gets a handle, and only while its centroid faces
+  // the viewer; the handle sits in the bearing direction, a little past the
+  // country's own radius.
+  const globeBearingHandle = useMemo<GlobeBearingHandle | null>(() => {
+    const country = globeHighlightCountries.find(
+      (entry) => entry.country.id === selectedId
+    )?.country
+    if (!country) {
+      return null
+    }
+    const viewCenter: LonLat = [-globeRotation[0], -globeRotation[1]]
+    const radiusKm = Math.sqrt((country.area ?? 0) / Math.PI)
+    const reach = clamp(
+      ((radiusKm / EARTH_RADIUS_KM) * 180 * BEARING_HANDLE_REACH) / Math.PI,
+      BEARING_HANDLE_MIN_ARC,
+      BEARING_HANDLE_MAX_ARC
+    )
+    const handleLonLat = getDestination(
+      country.globeCentroid,
+      country.bearing,
+      reach
+    )
+    const isFacing = (point: LonLat) =>
+      d3.geoDistance(point, viewCenter) < Math.PI / 2
+    const centroid = globeProjection(country.globeCentroid)
+    const handle = globeProjection(handleLonLat)
+    if (
+      !centroid ||
+      !handle ||
+      !isFacing(country.globeCentroid) ||
+      !isFacing(handleLonLat)
+    ) {
+      return null
+    }
+    return {
+      country,
+      centroid: [centroid[0], centroid[1]],
+      handle: [handle[0], handle[1]],
+    }
+  }, [globeHighlightCountries, selectedId, globeRotation, globeProjection])
+
   const planetPreviewCountries = useMemo(
     () =>
       planetPlacements
@@ -1587,9 +2614,10 @@ function App() {
                 scaleFactor
               )
             : country.feature.geometry
-          const rotation = createSphericalRotation(
+          const rotation = createCountryRotation(
             country.originalCentroid,
-            placement.centroid
+            placement.centroid,
+            country.bearing
           )
           const rotatedGeometry = scaledGeometry
             ? rotateGeometry(scaledGeometry, rotation)
@@ -1617,6 +2645,9 @@ function App() {
         <title>{pageMeta.title}</title>
         <meta name="description" content={pageMeta.description} />
         <link rel="canonical" href={pageMeta.canonical} />
+        {comparisonMeta?.indexable === false && (
+          <meta name="robots" content="noindex" />
+        )}
         <meta property="og:type" content="website" />
         <meta property="og:title" content={pageMeta.title} />
         <meta property="og:description" content={pageMeta.description} />
@@ -1631,6 +2662,9 @@ function App() {
         </script>
       </Helmet>
       <div className="app">
+      <div className="sr-only" aria-live="polite" role="status">
+        {liveAnnouncement}
+      </div>
       <nav className="page-tabs" aria-label="Interactive science tools">
         <a
           className="page-tabs-brand"
@@ -1784,12 +2818,63 @@ function App() {
             showStaticPreview={!comparisonMeta}
             mapWidth={MAP_WIDTH}
             mapHeight={MAP_HEIGHT}
+            mapSvgRef={mapSvgRef}
+            mapTransform={mapTransform}
+            mapPanning={mapPanning}
+            canZoomIn={mapTransform.k < MAP_ZOOM_MAX - 0.001}
+            canZoomOut={mapTransform.k > MAP_ZOOM_MIN + 0.001}
+            onMapPointerDown={handleMapBackgroundPointerDown}
+            onZoomIn={() => zoomMapBy(MAP_ZOOM_STEP)}
+            onZoomOut={() => zoomMapBy(1 / MAP_ZOOM_STEP)}
+            onResetZoom={resetMapZoom}
+            onExportPng={exportMapPng}
+            exportStatus={exportStatus}
+            projection={getMapProjectionOption(mapProjectionId)}
+            onProjectionChange={changeMapProjection}
+            tissotSettings={tissotSettings}
+            onTissotChange={setTissotSettings}
+            tissotCircles={tissotCircles}
+            getTissotDistortion={getMapTissotDistortion}
+            tours={tours}
+            activeTour={activeTour}
+            tourStepIndex={tourStepIndex}
+            tourPlaying={tourPlaying}
+            tourProgress={tourProgress}
+            tourCaption={tourCaption}
+            tourImportStatus={tourImportStatus}
+            onSelectTour={(id) =>
+              startTour(tours.find((tour) => tour.id === id) ?? null)
+            }
+            onPlayTour={playTour}
+            onPauseTour={pauseTour}
+            onStepTourBack={stepTourBack}
+            onStepTourForward={stepTourForward}
+            onRestartTour={restartTour}
+            onImportTour={importTour}
+            heatmapEnabled={heatmapEnabled}
+            heatmapUrl={mapHeatmapUrl}
+            onToggleHeatmap={() => setHeatmapEnabled((prev) => !prev)}
+            measureEnabled={measurement.enabled}
+            measureUnit={measurement.unit}
+            measurePaths={measurement.paths}
+            measureDraft={measurement.draft}
+            onToggleMeasure={measurement.toggle}
+            onMeasureUnitChange={measurement.setUnit}
+            onMeasurePointerDown={measurement.handlePointerDownCapture}
+            onMeasureClick={(event) =>
+              measurement.handleClick(event, getMapLonLatFromClient)
+            }
+            onFinishMeasure={measurement.finish}
+            onUndoMeasure={measurement.undo}
+            onRemoveMeasure={measurement.remove}
+            onClearMeasure={measurement.clear}
             worldFeatures={worldFeatures}
             pathGenerator={pathGenerator}
             latLines={mapLatLines}
             renderedCountries={mapRenderedCountries}
             draggableCountries={draggableCountries}
             selectedCountry={selectedCountry}
+            selectionGroup={selectionGroup}
             selectedDetails={selectedDetails}
             selectedId={selectedId}
             countryFilter={countryFilter}
@@ -1798,11 +2883,36 @@ function App() {
             areaFormatter={areaFormatter}
             formatLatitude={formatLatitude}
             formatScale={formatScale}
+            keyboardStep={keyboardStep}
+            onKeyboardStepChange={setKeyboardStep}
             onResetPositions={resetPositions}
+            onPlaceSelected={(target) =>
+              selectedCountry ? placeCountry(selectedCountry.id, target) : null
+            }
+            onSnapSelectedToEquator={() =>
+              selectedCountry && selectedDetails
+                ? placeCountry(selectedCountry.id, [selectedDetails.currentLon, 0])
+                : null
+            }
+            onResetSelected={() =>
+              selectedCountry ? resetCountryPosition(selectedCountry.id) : null
+            }
             onSelectCountry={setSelectedId}
             onCountryPointerDown={handlePointerDown}
+            onCountryKeyDown={handleCountryKeyDown}
             onCountryFilterChange={setCountryFilter}
             onToggleDraggable={toggleDraggable}
+            countries={countries}
+            stampSelection={stampSelection}
+            stampOverlays={stampOverlays}
+            onStampChange={setStampSelection}
+            regionsEnabled={regionsEnabled}
+            regionsLoading={regionsLoading}
+            regionsError={regionsError}
+            detailError={detailError}
+            onToggleRegions={() => setRegionsEnabled((prev) => !prev)}
+            shapeImportStatus={shapeImportStatus}
+            onImportShape={importShapes}
           />
         ) : (
           <MapErrorBoundary key="globe" fallback={<ToolViewUnavailable name="globe" />}>
@@ -1813,6 +2923,10 @@ function App() {
             globePathGenerator={globePathGenerator}
             globeSphere={globeSphere}
             globeGraticule={globeGraticule}
+            tissotSettings={tissotSettings}
+            onTissotChange={setTissotSettings}
+            tissotCircles={tissotCircles}
+            getTissotDistortion={getGlobeTissotDistortion}
             planetPathGenerator={planetPathGenerator}
             planetGraticule={planetGraticule}
             globeHighlightCountries={globeHighlightCountries}
@@ -1830,6 +2944,7 @@ function App() {
             planetCountries={planetPreviewCountries}
             areaFormatter={areaFormatter}
             selectedCountry={selectedCountry}
+            selectionGroup={selectionGroup}
             draggableCountries={draggableCountries}
             countryFilter={countryFilter}
             filteredCountries={filteredCountries}
@@ -1842,6 +2957,12 @@ function App() {
             globeSize={GLOBE_SIZE}
             planetPreviewSize={PLANET_PREVIEW_SIZE}
             planetRadius={planetRadius}
+            planetAxisRatio={planetAxisRatio}
+            planetViewLatitude={planetViewLatitude}
+            planetRings={planetRings}
+            planetNightSide={planetNightSide}
+            planetLighting={planetLighting}
+            onPlanetLightingChange={setPlanetLighting}
             onResetScene={resetGlobeRotation}
             onCenterSelected={() =>
               selectedCountry ? focusOnCountry(selectedCountry) : null
@@ -1850,15 +2971,55 @@ function App() {
             onSetGlobeDragMode={setGlobeDragMode}
             onToggleSolarSystem={() => setSolarSystemEnabled((prev) => !prev)}
             onGlobePointerDown={handleGlobePointerDown}
+            measureEnabled={measurement.enabled}
+            measureUnit={measurement.unit}
+            measurePaths={measurement.paths}
+            measureDraft={measurement.draft}
+            onToggleMeasure={measurement.toggle}
+            onMeasureUnitChange={measurement.setUnit}
+            onMeasurePointerDown={measurement.handlePointerDownCapture}
+            onMeasureClick={(event) =>
+              measurement.handleClick(event, getGlobeLonLatFromClient)
+            }
+            onFinishMeasure={measurement.finish}
+            onUndoMeasure={measurement.undo}
+            onRemoveMeasure={measurement.remove}
+            onClearMeasure={measurement.clear}
             onGlobeCountryPointerDown={handleGlobeCountryPointerDown}
+            bearingHandle={globeBearingHandle}
+            onBearingHandlePointerDown={handleGlobeBearingPointerDown}
+            onCountryBearingChange={setCountryBearing}
             onPlanetPointerDown={handlePlanetPointerDown}
             onPlanetCountryPointerDown={handlePlanetCountryPointerDown}
+            onGlobeKeyDown={handleGlobeKeyDown}
+            onGlobeCountryKeyDown={handleGlobeCountryKeyDown}
+            onPlanetKeyDown={handlePlanetKeyDown}
+            onPlanetCountryKeyDown={handlePlanetCountryKeyDown}
+            onPlaceSelectedOnPlanet={placeSelectedOnPlanet}
+            keyboardStep={keyboardStep}
+            onKeyboardStepChange={setKeyboardStep}
             onPlanetZoomIn={handlePlanetZoomIn}
             onPlanetZoomOut={handlePlanetZoomOut}
             onSelectPlanet={setActivePlanetId}
+            customBody={customBody}
+            customBodyTextureStatus={customBodyTextureStatus}
+            onCustomBodyChange={updateCustomBody}
+            onImportCustomBodyTexture={importCustomBodyTexture}
+            onClearCustomBodyTexture={clearCustomBodyTexture}
             onFocusCountry={focusOnCountry}
             onCountryFilterChange={setCountryFilter}
             onToggleDraggable={toggleDraggable}
+            countries={countries}
+            stampSelection={stampSelection}
+            stampOverlays={stampOverlays}
+            onStampChange={setStampSelection}
+            regionsEnabled={regionsEnabled}
+            regionsLoading={regionsLoading}
+            regionsError={regionsError}
+            detailError={detailError}
+            onToggleRegions={() => setRegionsEnabled((prev) => !prev)}
+            shapeImportStatus={shapeImportStatus}
+            onImportShape={importShapes}
             formatLatitude={formatLatitude}
             formatLongitude={formatLongitude}
             formatPlanetRatio={formatPlanetRatio}
@@ -1880,6 +3041,11 @@ function App() {
           filteredCountries={filteredCountries}
           onCountryFilterChange={setCountryFilter}
           onToggleDraggable={toggleDraggable}
+          tissotSettings={tissotSettings}
+          onTissotChange={setTissotSettings}
+          tissotCircles={tissotCircles}
+          heatmapEnabled={heatmapEnabled}
+          onToggleHeatmap={() => setHeatmapEnabled((prev) => !prev)}
         />
         </MapErrorBoundary>
       )}
@@ -1948,6 +3114,11 @@ function App() {
                       : 'Copy'}
                 </button>
               </div>
+              {shareOmitsImportedShapes ? (
+                <p className="share-note">
+                  Imported shapes are not included in the link.
+                </p>
+              ) : null}
             </div>
 
             <div className="share-group">
@@ -0,0 +1,77 @@
+import type {
+  KeyboardEvent as ReactKeyboardEvent,
+  PointerEvent as ReactPointerEvent,
+} from 'react'
+import type { CountryDatum, GlobeBearingHandle } from '../types'
+
+type BearingHandleProps = {
+  handle: GlobeBearingHandle
+  step: number
+  onPointerDown: (
+    event: ReactPointerEvent<SVGCircleElement>,
+    country: CountryDatum
+  ) => void
+  onChange: (id: string, bearing: number) => void
+}
+
+const BearingHandle = ({
+  handle,
+  step,
+  onPointerDown,
+  onChange,
+}: BearingHandleProps) => {
+  const { country, centroid, handle: [x, y] } = handle
+
+  const handleKeyDown = (event: ReactKeyboardEvent<SVGCircleElement>) => {
+    const direction =
+      event.key === 'ArrowRight' || event.key === 'ArrowUp'
+        ? 1
+        : event.key === 'ArrowLeft' || event.key === 'ArrowDown'
+          ? -1
+          : 0
+    if (direction === 0) {
+      return
+    }
+    event.preventDefault()
+    event.stopPropagation()
+    onChange(country.id, country.bearing + direction * step)
+  }
+
+  return (
+    <g className="bearing-handle">
+      <line
+        className="bearing-handle-arm"
+        x1={centroid[0]}
+        y1={centroid[1]}
+        x2={x}
+        y2={y}
+        aria-hidden="true"
+      />
+      <circle
+        className="bearing-handle-pivot"
+        cx={centroid[0]}
+        cy={centroid[1]}
+        r={3}
+        aria-hidden="true"
+      />
+      <circle
+        className="bearing-handle-knob"
+        cx={x}
+        cy={y}
+        r={8}
+        fill={country.color}
+        tabIndex={0}
+        role="slider"
+        aria-label={`Rotate ${country.name}`}
+        aria-valuemin={0}
+        aria-valuemax={359}
+        aria-valuenow={Math.round(country.bearing)}
+        aria-valuetext={`${Math.round(country.bearing)}°`}
+        onPointerDown={(event) => onPointerDown(event, country)}
+        onKeyDown={handleKeyDown}
+      />
+    </g>
+  )
+}
+
+export default BearingHandle
@@ -0,0 +1,38 @@
+type BearingInputProps = {
+  countryName: string
+  bearing: number
+  onChange: (bearing: number) => void
+}
+
+const BearingInput = ({ countryName, bearing, onChange }: BearingInputProps) => (
+  <div className="bearing-input">
+    <label className="placement-field">
+      <span>Bearing</span>
+      <input
+        type="number"
+        inputMode="numeric"
+        min={0}
+        max={359}
+        step={1}
+        value={Math.round(bearing)}
+        onChange={(event) => {
+          const value = Number(event.target.value)
+          if (event.target.value.trim() !== '' && Number.isFinite(value)) {
+            onChange(value)
+          }
+        }}
+        aria-label={`Bearing of ${countryName} in degrees`}
+      />
+    </label>
+    <button
+      className="github-button"
+      type="button"
+      onClick={() => onChange(0)}
+      disabled={bearing === 0}
+    >
+      Straighten
+    </button>
+  </div>
+)
+
+export default BearingInput
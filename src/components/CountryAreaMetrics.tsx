@@ -0,0 +1,70 @@
+import type { CountryDatum } from '../types'
+import { formatAreaRatio } from '../utils/formatters'
+
+type CountryAreaMetricsProps = {
+  country: CountryDatum
+  comparisonCountries: CountryDatum[]
+  areaFormatter: Intl.NumberFormat
+}
+
+const CountryAreaMetrics = ({
+  country,
+  comparisonCountries,
+  areaFormatter,
+}: CountryAreaMetricsProps) => {
+  const { area } = country
+  const isComputed = country.areaSource === 'computed'
+  const ratios = area
+    ? comparisonCountries.flatMap((entry) =>
+        entry.id !== country.id && entry.area
+          ? [{ country: entry, ratio: area / entry.area }]
+          : []
+      )
+    : []
+
+  return (
+    <>
+      <div className="panel-metric">
+        <span className="metric-label">
+          {isComputed ? 'Area (computed)' : 'Total area'}
+        </span>
+        <span
+          className="metric-value"
+          title={
+            isComputed
+              ? 'Spherical area of the simplified map outline. Usually within a few percent for large countries, but small and island countries can be off by half or more.'
+              : undefined
+          }
+        >
+          {area
+            ? `${isComputed ? '≈ ' : ''}${areaFormatter.format(area)} km²`
+            : 'Unknown'}
+        </span>
+      </div>
+      {ratios.length > 0 ? (
+        <div className="panel-metric area-comparison">
+          <span className="metric-label">Compared with</span>
+          <ul className="area-comparison-list">
+            {ratios.map((entry) => (
+              <li key={`area-${entry.country.id}`}>
+                <span
+                  className="legend-swatch"
+                  style={{ backgroundColor: entry.country.color }}
+                  aria-hidden="true"
+                />
+                <span className="area-comparison-name">
+                  {entry.country.name}
+                </span>
+                <span className="metric-value">
+                  {formatAreaRatio(entry.ratio)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </>
+  )
+}
+
+export default CountryAreaMetrics
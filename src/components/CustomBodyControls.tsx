@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { Upload } from 'lucide-react'
+import type { StatusMessage } from '../types'
+import {
+  CUSTOM_BODY_MAX_KM,
+  CUSTOM_BODY_MIN_KM,
+  EARTH_DIAMETER_KM,
+} from '../solar'
+import type { CustomBody } from '../solar'
+
+type SizeUnit = 'km' | 'earth'
+
+type CustomBodyControlsProps = {
+  body: CustomBody
+  textureStatus: StatusMessage | null
+  onChange: (changes: Partial<Omit<CustomBody, 'textureUrl'>>) => void
+  onImportTexture: (file: File) => void
+  onClearTexture: () => void
+}
+
+// Diameter in km, or radius in Earth radii (which is the same ratio).
+const toDisplaySize = (diameterKm: number, unit: SizeUnit) =>
+  unit === 'km'
+    ? String(Math.round(diameterKm))
+    : String(Number((diameterKm / EARTH_DIAMETER_KM).toFixed(3)))
+
+const CustomBodyControls = ({
+  body,
+  textureStatus,
+  onChange,
+  onImportTexture,
+  onClearTexture,
+}: CustomBodyControlsProps) => {
+  const [unit, setUnit] = useState<SizeUnit>('km')
+  const [sizeDraft, setSizeDraft] = useState(() =>
+    toDisplaySize(body.diameterKm, 'km')
+  )
+
+  const size = Number(sizeDraft)
+  const diameterKm = unit === 'km' ? size : size * EARTH_DIAMETER_KM
+  const isSizeValid =
+    sizeDraft.trim() !== '' &&
+    Number.isFinite(diameterKm) &&
+    diameterKm >= CUSTOM_BODY_MIN_KM &&
+    diameterKm <= CUSTOM_BODY_MAX_KM
+
+  const handleSizeChange = (value: string) => {
+    setSizeDraft(value)
+    const nextSize = Number(value)
+    const nextDiameter = unit === 'km' ? nextSize : nextSize * EARTH_DIAMETER_KM
+    if (
+      value.trim() !== '' &&
+      Number.isFinite(nextDiameter) &&
+      nextDiameter >= CUSTOM_BODY_MIN_KM &&
+      nextDiameter <= CUSTOM_BODY_MAX_KM
+    ) {
+      onChange({ diameterKm: nextDiameter })
+    }
+  }
+
+  const handleUnitChange = (nextUnit: SizeUnit) => {
+    setUnit(nextUnit)
+    setSizeDraft(toDisplaySize(body.diameterKm, nextUnit))
+  }
+
+  const handleTextureChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      onImportTexture(file)
+    }
+    event.target.value = ''
+  }
+
+  return (
+    <div className="custom-body">
+      <label className="placement-field">
+        <span>Name</span>
+        <input
+          type="text"
+          value={body.name}
+          maxLength={40}
+          onChange={(event) => onChange({ name: event.target.value })}
+        />
+      </label>
+      <div className="placement-fields">
+        <label className="placement-field">
+          <span>{unit === 'km' ? 'Diameter (km)' : 'Radius (Earth radii)'}</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={unit === 'km' ? CUSTOM_BODY_MIN_KM : 0}
+            step={unit === 'km' ? 1 : 0.01}
+            value={sizeDraft}
+            onChange={(event) => handleSizeChange(event.target.value)}
+            aria-invalid={!isSizeValid}
+          />
+        </label>
+        <label className="placement-field">
+          <span>Units</span>
+          <select
+            value={unit}
+            onChange={(event) => handleUnitChange(event.target.value as SizeUnit)}
+          >
+            <option value="km">Diameter, km</option>
+            <option value="earth">Radius, R⊕</option>
+          </select>
+        </label>
+      </div>
+      <div className="custom-body-surface">
+        <label className="placement-field custom-body-color">
+          <span>Color</span>
+          <input
+            type="color"
+            value={body.color}
+            onChange={(event) => onChange({ color: event.target.value })}
+          />
+        </label>
+        <label className="shape-import-drop">
+          <Upload size={16} aria-hidden="true" />
+          <span>Equirectangular texture</span>
+          <input
+            type="file"
+            accept="image/*"
+            onChange={handleTextureChange}
+            className="sr-only"
+          />
+        </label>
+        {body.textureUrl ? (
+          <button className="github-button" type="button" onClick={onClearTexture}>
+            Use color
+          </button>
+        ) : null}
+      </div>
+      {!isSizeValid ? (
+        <div className="region-status is-error" role="alert">
+          Enter a diameter between {CUSTOM_BODY_MIN_KM} and{' '}
+          {CUSTOM_BODY_MAX_KM.toLocaleString('en-US')} km.
+        </div>
+      ) : null}
+      {textureStatus ? (
+        <div
+          className={`region-status ${textureStatus.isError ? 'is-error' : ''}`}
+          role={textureStatus.isError ? 'alert' : 'status'}
+        >
+          {textureStatus.message}
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+export default CustomBodyControls
@@ -0,0 +1,248 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react'
+import type { GeoProjection } from 'd3-geo'
+import type { CountryDatum, EquatorProjectionId, Vec3 } from '../types'
+import { formatAreaRatio } from '../utils/formatters'
+import { heatmapColor } from '../utils/heatmap'
+import { createEquatorProjection } from '../utils/projections'
+import {
+  findLeastDistortedRotation,
+  getCountryArealScale,
+} from '../utils/equatorDistortion'
+
+type DistortionRankingProps = {
+  countries: CountryDatum[]
+  projection: GeoProjection
+  projectionId: EquatorProjectionId
+  projectionLabel: string
+  rotation: Vec3
+  selectedId: string | null
+  disabled?: boolean
+  onSelectCountry: (id: string) => void
+  onRotationChange: (rotation: Vec3) => void
+}
+
+type RankingSortKey = 'name' | 'standard' | 'current' | 'change'
+
+type RankingRow = {
+  country: CountryDatum
+  standard: number
+  current: number
+  change: number
+}
+
+const SORT_COLUMNS: { key: RankingSortKey; label: string }[] = [
+  { key: 'name', label: 'Country' },
+  { key: 'standard', label: 'Standard Mercator' },
+  { key: 'current', label: 'Current' },
+  { key: 'change', label: 'Change' },
+]
+
+// Bars run from 1/32 to 32x, the same range as the heatmap legend.
+const BAR_LOG_LIMIT = Math.log(32)
+
+const formatScaleFactor = (value: number) =>
+  `${value.toFixed(value >= 10 ? 0 : 2)}x`
+
+const DistortionRanking = ({
+  countries,
+  projection,
+  projectionId,
+  projectionLabel,
+  rotation,
+  selectedId,
+  disabled = false,
+  onSelectCountry,
+  onRotationChange,
+}: DistortionRankingProps) => {
+  const [sortKey, setSortKey] = useState<RankingSortKey>('change')
+  const [descending, setDescending] = useState(true)
+  const [targetId, setTargetId] = useState<string | null>(null)
+  const [optimizing, setOptimizing] = useState(false)
+  const mounted = useRef(true)
+  // Re-ranking every country takes a few frames, so it trails the handle
+  // instead of holding up the drag.
+  const deferredProjection = useDeferredValue(projection)
+
+  useEffect(() => {
+    mounted.current = true
+    return () => {
+      mounted.current = false
+    }
+  }, [])
+
+  const standardScales = useMemo(() => {
+    const mercator = createEquatorProjection('mercator')
+    return new Map(
+      countries.map((country) => [
+        country.id,
+        getCountryArealScale(mercator, country.feature),
+      ])
+    )
+  }, [countries])
+
+  const rows = useMemo<RankingRow[]>(() => {
+    const items: RankingRow[] = []
+    countries.forEach((country) => {
+      const standard = standardScales.get(country.id)
+      const current = getCountryArealScale(deferredProjection, country.feature)
+      if (standard && current) {
+        items.push({ country, standard, current, change: current / standard })
+      }
+    })
+    const direction = descending ? -1 : 1
+    items.sort((a, b) =>
+      sortKey === 'name'
+        ? direction * a.country.name.localeCompare(b.country.name)
+        : direction * (a[sortKey] - b[sortKey])
+    )
+    return items
+  }, [countries, standardScales, deferredProjection, sortKey, descending])
+
+  const countryOptions = useMemo(
+    () => [...countries].sort((a, b) => a.name.localeCompare(b.name)),
+    [countries]
+  )
+  const target =
+    countries.find((country) => country.id === (targetId ?? selectedId)) ??
+    countryOptions[0] ??
+    null
+
+  const handleSort = (key: RankingSortKey) => {
+    if (key === sortKey) {
+      setDescending((prev) => !prev)
+      return
+    }
+    setSortKey(key)
+    setDescending(key !== 'name')
+  }
+
+  const handleOptimize = async () => {
+    if (!target || optimizing || disabled) {
+      return
+    }
+    setOptimizing(true)
+    const best = await findLeastDistortedRotation(
+      projectionId,
+      target.feature,
+      rotation
+    )
+    if (mounted.current) {
+      setOptimizing(false)
+      onRotationChange(best)
+    }
+  }
+
+  return (
+    <div className="distortion-ranking">
+      <form
+        className="distortion-optimizer"
+        onSubmit={(event) => {
+          event.preventDefault()
+          void handleOptimize()
+        }}
+      >
+        <label className="keyboard-step">
+          <span>Least distortion for</span>
+          <select
+            value={target?.id ?? ''}
+            onChange={(event) => setTargetId(event.target.value)}
+            disabled={optimizing || disabled}
+          >
+            {countryOptions.map((country) => (
+              <option key={country.id} value={country.id}>
+                {country.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          className="reset-button"
+          type="submit"
+          disabled={!target || optimizing || disabled}
+          aria-busy={optimizing}
+        >
+          {optimizing ? 'Searching...' : 'Find rotation'}
+        </button>
+      </form>
+      <div className="distortion-table-scroll">
+        <table className="distortion-table">
+          <caption>
+            Mean area scale factor of each country on the {projectionLabel}{' '}
+            map, against the standard Mercator
+          </caption>
+          <thead>
+            <tr>
+              {SORT_COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  scope="col"
+                  aria-sort={
+                    column.key === sortKey
+                      ? descending
+                        ? 'descending'
+                        : 'ascending'
+                      : 'none'
+                  }
+                >
+                  <button type="button" onClick={() => handleSort(column.key)}>
+                    {column.label}
+                    {column.key === sortKey ? (descending ? ' ↓' : ' ↑') : ''}
+                  </button>
+                </th>
+              ))}
+              <th scope="col">
+                <span className="sr-only">Change chart</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const logChange = Math.max(
+                -BAR_LOG_LIMIT,
+                Math.min(BAR_LOG_LIMIT, Math.log(row.change))
+              )
+              const width = (Math.abs(logChange) / BAR_LOG_LIMIT) * 50
+              return (
+                <tr
+                  key={row.country.id}
+                  className={row.country.id === selectedId ? 'is-selected' : ''}
+                >
+                  <td>
+                    <button
+                      type="button"
+                      className="distortion-country"
+                      onClick={() => onSelectCountry(row.country.id)}
+                    >
+                      <span
+                        className="legend-swatch"
+                        style={{ backgroundColor: row.country.color }}
+                        aria-hidden="true"
+                      />
+                      {row.country.name}
+                    </button>
+                  </td>
+                  <td>{formatScaleFactor(row.standard)}</td>
+                  <td>{formatScaleFactor(row.current)}</td>
+                  <td>{formatAreaRatio(row.change)}</td>
+                  <td>
+                    <div className="distortion-bar" aria-hidden="true">
+                      <span
+                        style={{
+                          left: `${logChange < 0 ? 50 - width : 50}%`,
+                          width: `${width}%`,
+                          backgroundColor: heatmapColor(row.change),
+                        }}
+                      />
+                    </div>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default DistortionRanking
@@ -0,0 +1,242 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { X } from 'lucide-react'
+import type {
+  AnimationExportSettings,
+  AnimationFormat,
+  AnimationLayout,
+  StatusMessage,
+  Vec3,
+} from '../types'
+import {
+  ANIMATION_DURATION_MAX,
+  ANIMATION_DURATION_MIN,
+  ANIMATION_FPS_OPTIONS,
+  ANIMATION_SCALE_OPTIONS,
+  DEFAULT_ANIMATION_DURATION,
+  EQUATOR_SWEEPS,
+  createSweepKeyframes,
+} from '../utils/equatorAnimation'
+import type { EquatorSweepId } from '../utils/equatorAnimation'
+
+type EquatorAnimationControlsProps = {
+  rotation: Vec3
+  frameWidths: Record<AnimationLayout, number>
+  progress: number | null
+  status: StatusMessage | null
+  onExport: (settings: AnimationExportSettings) => void
+  onCancel: () => void
+}
+
+const formatRotation = (rotation: Vec3) =>
+  rotation.map((angle) => `${angle.toFixed(1)}°`).join(' / ')
+
+const EquatorAnimationControls = ({
+  rotation,
+  frameWidths,
+  progress,
+  status,
+  onExport,
+  onCancel,
+}: EquatorAnimationControlsProps) => {
+  const [sweepId, setSweepId] = useState<EquatorSweepId>('pole-loop')
+  const [keyframes, setKeyframes] = useState<Vec3[]>([])
+  const [layout, setLayout] = useState<AnimationLayout>('combo')
+  const [scale, setScale] = useState(0.5)
+  const [fps, setFps] = useState(ANIMATION_FPS_OPTIONS[1])
+  const [durationDraft, setDurationDraft] = useState(
+    `${DEFAULT_ANIMATION_DURATION}`
+  )
+  const [format, setFormat] = useState<AnimationFormat>('gif')
+
+  const sweep =
+    EQUATOR_SWEEPS.find((option) => option.id === sweepId) ?? EQUATOR_SWEEPS[0]
+  const duration = Number(durationDraft)
+  const isDurationValid =
+    durationDraft.trim() !== '' &&
+    Number.isFinite(duration) &&
+    duration >= ANIMATION_DURATION_MIN &&
+    duration <= ANIMATION_DURATION_MAX
+  const isRunning = progress !== null
+  const canExport =
+    !isRunning &&
+    isDurationValid &&
+    (sweepId !== 'keyframes' || keyframes.length >= 2)
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!canExport) {
+      return
+    }
+    onExport({
+      keyframes:
+        sweepId === 'keyframes'
+          ? keyframes
+          : createSweepKeyframes(sweepId, rotation),
+      loop: sweepId !== 'keyframes',
+      layout,
+      scale,
+      fps,
+      duration,
+      format,
+    })
+  }
+
+  return (
+    <form className="equator-controls" onSubmit={handleSubmit}>
+      <div className="panel-subtitle">Animation</div>
+      <label className="keyboard-step">
+        <span>Sweep</span>
+        <select
+          value={sweepId}
+          onChange={(event) => setSweepId(event.target.value as EquatorSweepId)}
+          disabled={isRunning}
+        >
+          {EQUATOR_SWEEPS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="map-hint">{sweep.description}</div>
+      {sweepId === 'keyframes' ? (
+        <div className="equator-keyframes">
+          {keyframes.length > 0 ? (
+            <ol>
+              {keyframes.map((keyframe, index) => (
+                <li key={`${index}:${keyframe.join(':')}`}>
+                  <span>{formatRotation(keyframe)}</span>
+                  <button
+                    className="github-button icon-button"
+                    type="button"
+                    onClick={() =>
+                      setKeyframes((prev) => prev.filter((_, i) => i !== index))
+                    }
+                    disabled={isRunning}
+                    aria-label={`Remove keyframe ${index + 1}`}
+                    title="Remove keyframe"
+                  >
+                    <X size={14} aria-hidden="true" />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="map-hint">
+              Tilt the equator, then add each stop of the sweep.
+            </div>
+          )}
+          <div className="placement-actions">
+            <button
+              className="github-button"
+              type="button"
+              onClick={() => setKeyframes((prev) => [...prev, rotation])}
+              disabled={isRunning}
+            >
+              Add current rotation
+            </button>
+            <button
+              className="github-button"
+              type="button"
+              onClick={() => setKeyframes([])}
+              disabled={isRunning || keyframes.length === 0}
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      ) : null}
+      <div className="equator-animation-fields">
+        <label className="keyboard-step">
+          <span>Layout</span>
+          <select
+            value={layout}
+            onChange={(event) => setLayout(event.target.value as AnimationLayout)}
+            disabled={isRunning}
+          >
+            <option value="map">2D map only</option>
+            <option value="combo">2D + 3D combo</option>
+          </select>
+        </label>
+        <label className="keyboard-step">
+          <span>Size</span>
+          <select
+            value={scale}
+            onChange={(event) => setScale(Number(event.target.value))}
+            disabled={isRunning}
+          >
+            {ANIMATION_SCALE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {Math.round(frameWidths[layout] * option)} px wide
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="keyboard-step">
+          <span>Frame rate</span>
+          <select
+            value={fps}
+            onChange={(event) => setFps(Number(event.target.value))}
+            disabled={isRunning}
+          >
+            {ANIMATION_FPS_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option} fps
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="keyboard-step">
+          <span>Format</span>
+          <select
+            value={format}
+            onChange={(event) => setFormat(event.target.value as AnimationFormat)}
+            disabled={isRunning}
+          >
+            <option value="gif">GIF</option>
+            <option value="webm">WebM video</option>
+          </select>
+        </label>
+        <label className="placement-field">
+          <span>Duration (s)</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={ANIMATION_DURATION_MIN}
+            max={ANIMATION_DURATION_MAX}
+            step="0.5"
+            value={durationDraft}
+            onChange={(event) => setDurationDraft(event.target.value)}
+            disabled={isRunning}
+          />
+        </label>
+      </div>
+      {isRunning ? (
+        <div className="equator-animation-progress">
+          <progress value={progress} max={1} aria-label="Export progress" />
+          <span>{Math.round(progress * 100)}%</span>
+          <button className="github-button" type="button" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="placement-actions">
+          <button className="reset-button" type="submit" disabled={!canExport}>
+            Export animation
+          </button>
+        </div>
+      )}
+      {status ? (
+        <div
+          className={`region-status ${status.isError ? 'is-error' : ''}`}
+          role={status.isError ? 'alert' : 'status'}
+        >
+          {status.message}
+        </div>
+      ) : null}
+    </form>
+  )
+}
+
+export default EquatorAnimationControls
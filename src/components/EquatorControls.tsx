@@ -0,0 +1,275 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import type { LonLat, StatusMessage, Vec3 } from '../types'
+import {
+  EQUATOR_CITIES,
+  EQUATOR_PRESETS,
+  getEquatorCity,
+  isSameRotation,
+} from '../utils/equatorPresets'
+import { getEquatorThroughPoints, getPoleRotation } from '../utils/geo'
+
+type EquatorControlsProps = {
+  rotation: Vec3
+  disabled?: boolean
+  onChange: (rotation: Vec3) => void
+}
+
+type EquatorEntryMode = 'pole' | 'points'
+
+type PointDraft = {
+  cityId: string
+  lat: string
+  lon: string
+}
+
+const CUSTOM_POINT = 'custom'
+const ROTATION_LABELS = ['Yaw λ', 'Pitch φ', 'Roll γ'] as const
+
+const createPointDraft = (cityId: string): PointDraft => {
+  const [lon, lat] = getEquatorCity(cityId).lonLat
+  return { cityId, lat: lat.toFixed(2), lon: lon.toFixed(2) }
+}
+
+const resolvePoint = (draft: PointDraft): LonLat | null => {
+  if (draft.cityId !== CUSTOM_POINT) {
+    return getEquatorCity(draft.cityId).lonLat
+  }
+  const lat = Number(draft.lat)
+  const lon = Number(draft.lon)
+  if (
+    draft.lat.trim() === '' ||
+    draft.lon.trim() === '' ||
+    !Number.isFinite(lat) ||
+    !Number.isFinite(lon) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lon) > 180
+  ) {
+    return null
+  }
+  return [lon, lat]
+}
+
+type PointFieldProps = {
+  label: string
+  draft: PointDraft
+  onChange: (draft: PointDraft) => void
+}
+
+const PointField = ({ label, draft, onChange }: PointFieldProps) => (
+  <div className="equator-point">
+    <label className="keyboard-step">
+      <span>{label}</span>
+      <select
+        value={draft.cityId}
+        onChange={(event) => onChange({ ...draft, cityId: event.target.value })}
+      >
+        {EQUATOR_CITIES.map((city) => (
+          <option key={city.id} value={city.id}>
+            {city.name}
+          </option>
+        ))}
+        <option value={CUSTOM_POINT}>Custom lat/lon</option>
+      </select>
+    </label>
+    {draft.cityId === CUSTOM_POINT ? (
+      <div className="placement-fields">
+        <label className="placement-field">
+          <span>Latitude</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={-90}
+            max={90}
+            step="0.1"
+            value={draft.lat}
+            onChange={(event) => onChange({ ...draft, lat: event.target.value })}
+            aria-label={`${label} latitude`}
+          />
+        </label>
+        <label className="placement-field">
+          <span>Longitude</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={-180}
+            max={180}
+            step="0.1"
+            value={draft.lon}
+            onChange={(event) => onChange({ ...draft, lon: event.target.value })}
+            aria-label={`${label} longitude`}
+          />
+        </label>
+      </div>
+    ) : null}
+  </div>
+)
+
+type RotationFieldsProps = EquatorControlsProps
+
+// Mount with a key that changes with the rotation so the drafts restart from
+// the live angles while the handle is dragged.
+const RotationFields = ({ rotation, onChange }: RotationFieldsProps) => {
+  const [drafts, setDrafts] = useState(() =>
+    rotation.map((angle) => angle.toFixed(1))
+  )
+  const angles = drafts.map(Number)
+  const isValid = drafts.every(
+    (draft, index) => draft.trim() !== '' && Number.isFinite(angles[index])
+  )
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (isValid) {
+      onChange([angles[0], angles[1], angles[2]])
+    }
+  }
+
+  return (
+    <form className="placement-controls" onSubmit={handleSubmit}>
+      <div className="equator-rotation-fields">
+        {ROTATION_LABELS.map((label, index) => (
+          <label key={label} className="placement-field">
+            <span>{label}</span>
+            <input
+              type="number"
+              inputMode="decimal"
+              step="0.1"
+              value={drafts[index]}
+              onChange={(event) =>
+                setDrafts((prev) =>
+                  prev.map((draft, i) => (i === index ? event.target.value : draft))
+                )
+              }
+              aria-label={`Equator rotation ${label}`}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="placement-actions">
+        <button className="reset-button" type="submit" disabled={!isValid}>
+          Set rotation
+        </button>
+      </div>
+    </form>
+  )
+}
+
+const EquatorControls = ({
+  rotation,
+  disabled = false,
+  onChange,
+}: EquatorControlsProps) => {
+  const [mode, setMode] = useState<EquatorEntryMode>('pole')
+  const [pole, setPole] = useState(() => createPointDraft('london'))
+  const [first, setFirst] = useState(() => createPointDraft('new-york'))
+  const [second, setSecond] = useState(() => createPointDraft('tokyo'))
+  const [status, setStatus] = useState<StatusMessage | null>(null)
+
+  const handleApply = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (mode === 'pole') {
+      const target = resolvePoint(pole)
+      if (!target) {
+        setStatus({ message: 'Enter a valid pole position.', isError: true })
+        return
+      }
+      setStatus(null)
+      onChange(getPoleRotation(target))
+      return
+    }
+    const a = resolvePoint(first)
+    const b = resolvePoint(second)
+    if (!a || !b) {
+      setStatus({ message: 'Enter two valid points.', isError: true })
+      return
+    }
+    const next = getEquatorThroughPoints(a, b)
+    if (!next) {
+      setStatus({
+        message:
+          'The points are the same or opposite each other, so many equators pass through both.',
+        isError: true,
+      })
+      return
+    }
+    setStatus(null)
+    onChange(next)
+  }
+
+  // A fieldset disables every preset, field and button inside it at once.
+  return (
+    <fieldset className="equator-controls" disabled={disabled}>
+      <div className="panel-subtitle">Presets</div>
+      <div className="equator-presets">
+        {EQUATOR_PRESETS.map((preset) => {
+          const isActive = isSameRotation(preset.rotation, rotation)
+          return (
+            <button
+              key={preset.id}
+              className={`globe-toggle-button ${isActive ? 'is-active' : ''}`}
+              type="button"
+              aria-pressed={isActive}
+              onClick={() => {
+                setStatus(null)
+                onChange(preset.rotation)
+              }}
+            >
+              {preset.label}
+            </button>
+          )
+        })}
+      </div>
+      <div className="panel-subtitle">Set the equator</div>
+      <div className="globe-toggle" role="group" aria-label="Equator entry mode">
+        <button
+          className={`globe-toggle-button ${mode === 'pole' ? 'is-active' : ''}`}
+          type="button"
+          aria-pressed={mode === 'pole'}
+          onClick={() => setMode('pole')}
+        >
+          Pole at
+        </button>
+        <button
+          className={`globe-toggle-button ${mode === 'points' ? 'is-active' : ''}`}
+          type="button"
+          aria-pressed={mode === 'points'}
+          onClick={() => setMode('points')}
+        >
+          Through two points
+        </button>
+      </div>
+      <form className="placement-controls" onSubmit={handleApply}>
+        {mode === 'pole' ? (
+          <PointField label="New north pole" draft={pole} onChange={setPole} />
+        ) : (
+          <>
+            <PointField label="First point" draft={first} onChange={setFirst} />
+            <PointField label="Second point" draft={second} onChange={setSecond} />
+          </>
+        )}
+        <div className="placement-actions">
+          <button className="reset-button" type="submit">
+            Apply
+          </button>
+        </div>
+      </form>
+      {status ? (
+        <div
+          className={`region-status ${status.isError ? 'is-error' : ''}`}
+          role={status.isError ? 'alert' : 'status'}
+        >
+          {status.message}
+        </div>
+      ) : null}
+      <div className="panel-subtitle">Rotation</div>
+      <RotationFields
+        key={rotation.map((angle) => angle.toFixed(2)).join(':')}
+        rotation={rotation}
+        onChange={onChange}
+      />
+    </fieldset>
+  )
+}
+
+export default EquatorControls
@@ -8,7 +8,17 @@ import type { LineString } from 'geojson'
 import type { GeoPermissibleObjects } from 'd3-geo'
 import * as d3 from 'd3'
 import { Download, RotateCcw, X } from 'lucide-react'
-import type { CountryDatum, CountryFeature, LonLat, Vec3 } from '../types'
+import type {
+  AnimationExportSettings,
+  AnimationLayout,
+  CountryDatum,
+  CountryFeature,
+  EquatorProjectionId,
+  LonLat,
+  TissotCircle,
+  TissotSettings,
+  Vec3,
+} from '../types'
 import {
   GLOBE_DEFAULT_ROTATION,
   GLOBE_DRAG_SENSITIVITY,
@@ -19,8 +29,32 @@ import {
   MAP_WIDTH,
   MAX_GLOBE_TILT,
 } from '../constants'
-import { clamp, createSphericalRotation, rotateGeometry } from '../utils/geo'
+import { clamp, createCountryRotation, rotateGeometry } from '../utils/geo'
 import { formatLatitude, formatLongitude } from '../utils/formatters'
+import {
+  EQUATOR_PROJECTIONS,
+  createEquatorProjection,
+  getEquatorProjectionOption,
+  getLocalDistortion,
+  isOnMapProjection,
+} from '../utils/projections'
+import { HEATMAP_OPACITY } from '../utils/heatmap'
+import { useAnimationExport } from '../hooks/useAnimationExport'
+import { useDistortionHeatmap } from '../hooks/useDistortionHeatmap'
+import { DEFAULT_EQUATOR_ROTATION } from '../utils/equatorPresets'
+import {
+  WATERMARK_HEIGHT,
+  createSvgImage,
+  downloadDataUrl,
+  drawWatermark,
+} from '../utils/svgExport'
+import DistortionRanking from './DistortionRanking'
+import EquatorAnimationControls from './EquatorAnimationControls'
+import EquatorControls from './EquatorControls'
+import HeatmapLegend from './HeatmapLegend'
+import ProjectionSelect from './ProjectionSelect'
+import TissotControls from './TissotControls'
+import TissotLayer from './TissotLayer'
 
 type EquatorShiftViewProps = {
   loading: boolean
@@ -35,6 +69,11 @@ type EquatorShiftViewProps = {
   filteredCountries: CountryDatum[]
   onCountryFilterChange: (value: string) => void
   onToggleDraggable: (id: string) => void
+  tissotSettings: TissotSettings
+  onTissotChange: (settings: TissotSettings) => void
+  tissotCircles: TissotCircle[]
+  heatmapEnabled: boolean
+  onToggleHeatmap: () => void
 }
 
 type GlobeDragState = {
@@ -62,9 +101,19 @@ const EQUATOR_HANDLE_RADIUS = 7
 const EQUATOR_TILT_LIMIT = 85
 const WATERMARK_URL =
   'https://www.runcell.dev/tool/true-size-map/custom-mercator-projection'
-const WATERMARK_HEIGHT = 32
 const COMBO_GAP = 24
 const COMBO_GLOBE_SCALE = 0.85
+const COMBO_GLOBE_PIXELS = Math.round(GLOBE_SIZE * COMBO_GLOBE_SCALE)
+const EXPORT_WIDTHS: Record<AnimationLayout, number> = {
+  map: MAP_WIDTH,
+  combo: MAP_WIDTH + COMBO_GAP + COMBO_GLOBE_PIXELS,
+}
+
+// Two frames: one for React to commit the new rotation, one for it to paint.
+const waitForPaint = () =>
+  new Promise<void>((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve()))
+  })
 
 const EquatorShiftView = ({
   loading,
@@ -79,8 +128,17 @@ const EquatorShiftView = ({
   filteredCountries,
   onCountryFilterChange,
   onToggleDraggable,
+  tissotSettings,
+  onTissotChange,
+  tissotCircles,
+  heatmapEnabled,
+  onToggleHeatmap,
 }: EquatorShiftViewProps) => {
-  const [equatorRotation, setEquatorRotation] = useState<Vec3>([0, 0, 0])
+  const [equatorRotation, setEquatorRotation] = useState<Vec3>(
+    DEFAULT_EQUATOR_ROTATION
+  )
+  const [projectionId, setProjectionId] =
+    useState<EquatorProjectionId>('mercator')
   const [globeRotation, setGlobeRotation] = useState<Vec3>(
     GLOBE_DEFAULT_ROTATION
   )
@@ -97,15 +155,22 @@ const EquatorShiftView = ({
   const equatorDragState = useRef<{ pointerId: number } | null>(null)
   const globeDragState = useRef<GlobeDragState | null>(null)
   const mapDragState = useRef<DragState | null>(null)
+  // Animation frames are rendered from the live view, so user input is
+  // ignored until the export finishes.
+  const exportingRef = useRef(false)
+
+  const projectionOption = getEquatorProjectionOption(projectionId)
+
+  // The normal aspect, used for the heatmap: a rotation moves the world
+  // across the map but leaves the distortion at each map point unchanged.
+  const baseProjection = useMemo(
+    () => createEquatorProjection(projectionId),
+    [projectionId]
+  )
 
   const equatorProjection = useMemo(
-    () =>
-      d3
-        .geoMercator()
-        .scale(175)
-        .translate([MAP_WIDTH / 2, MAP_HEIGHT / 2 + 10])
-        .rotate(equatorRotation),
-    [equatorRotation]
+    () => createEquatorProjection(projectionId).rotate(equatorRotation),
+    [projectionId, equatorRotation]
   )
 
   const mapPathGenerator = useMemo(
@@ -113,6 +178,34 @@ const EquatorShiftView = ({
     [equatorProjection]
   )
 
+  const getTiltedArealScale = useCallback(
+    (point: [number, number]) => {
+      if (!isOnMapProjection(baseProjection, 90, point)) {
+        return null
+      }
+      const lonLat = baseProjection.invert?.(point)
+      return lonLat
+        ? getLocalDistortion(baseProjection, [lonLat[0], lonLat[1]])?.areal ??
+            null
+        : null
+    },
+    [baseProjection]
+  )
+
+  const heatmapUrl = useDistortionHeatmap(
+    heatmapEnabled,
+    MAP_WIDTH,
+    MAP_HEIGHT,
+    getTiltedArealScale
+  )
+
+  // Measured against the projection's nominal scale, which holds along the
+  // tilted equator (or, for the azimuthal one, at the handle).
+  const getTissotDistortion = useCallback(
+    (center: LonLat) => getLocalDistortion(equatorProjection, center),
+    [equatorProjection]
+  )
+
   const globeProjection = useMemo(
     () =>
       d3
@@ -150,6 +243,25 @@ const EquatorShiftView = ({
     return { type: 'LineString', coordinates: points }
   }, [equatorRotationFn])
 
+  // Transverse Mercator is true to scale along the tilted frame's central
+  // meridian instead, so that great circle is drawn as well.
+  const centralMeridianLine = useMemo<LineString | null>(() => {
+    if (projectionId !== 'transverse-mercator') {
+      return null
+    }
+    const circle = d3
+      .geoCircle()
+      .center(equatorRotationFn.invert([90, 0]) as LonLat)
+      .radius(90)
+      .precision(2)()
+    return { type: 'LineString', coordinates: circle.coordinates[0] }
+  }, [projectionId, equatorRotationFn])
+
+  const mapSphere = useMemo(
+    () => mapPathGenerator({ type: 'Sphere' }) ?? '',
+    [mapPathGenerator]
+  )
+
   const equatorHandle = useMemo(
     () => equatorRotationFn.invert([0, 0]) as LonLat,
     [equatorRotationFn]
@@ -210,7 +322,9 @@ const EquatorShiftView = ({
         cx + country.offset.x,
         cy + country.offset.y,
       ]
-      const inverted = equatorProjection.invert?.(currentPoint)
+      const inverted = isOnMapProjection(equatorProjection, 90, currentPoint)
+        ? equatorProjection.invert?.(currentPoint)
+        : null
       if (!inverted) {
         return country.originalCentroid
       }
@@ -236,9 +350,10 @@ const EquatorShiftView = ({
     () =>
       orderedCountries.map((country) => {
         const currentCoordinates = getCurrentCoordinates(country)
-        const rotation = createSphericalRotation(
+        const rotation = createCountryRotation(
           country.originalCentroid,
-          currentCoordinates
+          currentCoordinates,
+          country.bearing
         )
         const rotatedGeometry = country.feature.geometry
           ? rotateGeometry(country.feature.geometry, rotation)
@@ -260,7 +375,7 @@ const EquatorShiftView = ({
   const handleGlobePointerDown = (
     event: ReactPointerEvent<SVGSVGElement>
   ) => {
-    if (event.button !== 0) {
+    if (event.button !== 0 || exportingRef.current) {
       return
     }
     event.preventDefault()
@@ -278,7 +393,7 @@ const EquatorShiftView = ({
     event: ReactPointerEvent<SVGGElement>,
     country: CountryDatum
   ) => {
-    if (event.button !== 0) {
+    if (event.button !== 0 || exportingRef.current) {
       return
     }
     event.preventDefault()
@@ -298,7 +413,7 @@ const EquatorShiftView = ({
   const handleEquatorPointerDown = (
     event: ReactPointerEvent<SVGCircleElement>
   ) => {
-    if (event.button !== 0) {
+    if (event.button !== 0 || exportingRef.current) {
       return
     }
     event.preventDefault()
@@ -423,8 +538,15 @@ const EquatorShiftView = ({
     }
   }, [equatorDragging, globeDragging, mapDragging, handlePointerMove, handlePointerUp])
 
+  // Entry point for the presets, the rotation fields and the optimizer.
+  const handleRotationInput = useCallback((rotation: Vec3) => {
+    if (!exportingRef.current) {
+      setEquatorRotation(rotation)
+    }
+  }, [])
+
   const handleResetEquator = () => {
-    setEquatorRotation([0, 0, 0])
+    handleRotationInput(DEFAULT_EQUATOR_ROTATION)
   }
 
   const handleResetView = () => {
@@ -434,6 +556,11 @@ const EquatorShiftView = ({
   const mapExportStyles = useMemo(
     () => `
       .map-ocean { fill: rgba(12, 26, 48, 0.9); }
+      .map-sphere {
+        fill: rgba(248, 245, 239, 0.03);
+        stroke: rgba(248, 245, 239, 0.22);
+        stroke-width: 1;
+      }
       .world-base path {
         fill: rgba(248, 245, 239, 0.08);
         stroke: rgba(248, 245, 239, 0.18);
@@ -450,12 +577,28 @@ const EquatorShiftView = ({
       .country-group.is-dragging {
         filter: url(#countryShadow);
       }
+      .heatmap-legend-backdrop { fill: rgba(6, 12, 22, 0.72); }
+      .heatmap-legend text {
+        fill: rgba(248, 245, 239, 0.8);
+        font: 11px "IBM Plex Sans", "Segoe UI", sans-serif;
+      }
+      .tissot-circle {
+        fill: rgba(246, 196, 83, 0.18);
+        stroke: rgba(246, 196, 83, 0.7);
+        stroke-width: 0.8;
+      }
       .equator-line {
         fill: none;
         stroke: #ff5a5f;
         stroke-width: 2.2;
         stroke-linecap: round;
       }
+      .equator-meridian {
+        fill: none;
+        stroke: #ff5a5f;
+        stroke-width: 1.6;
+        stroke-dasharray: 6 6;
+      }
     `,
     []
   )
@@ -483,6 +626,12 @@ const EquatorShiftView = ({
         stroke-width: 2.2;
         stroke-linecap: round;
       }
+      .equator-meridian {
+        fill: none;
+        stroke: #ff5a5f;
+        stroke-width: 1.6;
+        stroke-dasharray: 6 6;
+      }
       .equator-handle {
         fill: #ff5a5f;
         stroke: rgba(255, 255, 255, 0.85);
@@ -492,140 +641,114 @@ const EquatorShiftView = ({
     []
   )
 
-  const createSvgImage = useCallback(
-    (svg: SVGSVGElement, styleText: string, width: number, height: number) =>
-      new Promise<HTMLImageElement>((resolve, reject) => {
-        const svgClone = svg.cloneNode(true) as SVGSVGElement
-        svgClone.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
-        svgClone.setAttribute('width', `${width}`)
-        svgClone.setAttribute('height', `${height}`)
-
-        const defs =
-          svgClone.querySelector('defs') ??
-          (() => {
-            const nextDefs = document.createElementNS(
-              'http://www.w3.org/2000/svg',
-              'defs'
+  // Draws the map, or the map and globe side by side, above the watermark at
+  // `scale` canvas pixels per SVG unit.
+  const renderExportCanvas = useCallback(
+    async (layout: AnimationLayout, scale: number) => {
+      if (!mapSvgRef.current || (layout === 'combo' && !globeSvgRef.current)) {
+        return null
+      }
+      const [mapImage, globeImage] = await Promise.all([
+        createSvgImage(mapSvgRef.current, mapExportStyles, MAP_WIDTH, MAP_HEIGHT),
+        layout === 'combo' && globeSvgRef.current
+          ? createSvgImage(
+              globeSvgRef.current,
+              globeExportStyles,
+              GLOBE_SIZE,
+              GLOBE_SIZE
             )
-            svgClone.insertBefore(nextDefs, svgClone.firstChild)
-            return nextDefs
-          })()
-        const style = document.createElementNS(
-          'http://www.w3.org/2000/svg',
-          'style'
+          : null,
+      ])
+
+      const globeSize = globeImage ? COMBO_GLOBE_PIXELS : 0
+      const contentHeight = Math.max(MAP_HEIGHT, globeSize)
+      const contentWidth = EXPORT_WIDTHS[layout]
+      const height = contentHeight + WATERMARK_HEIGHT
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(contentWidth * scale)
+      canvas.height = Math.round(height * scale)
+      const ctx = canvas.getContext('2d')
+      if (!ctx) {
+        return null
+      }
+      ctx.scale(scale, scale)
+      ctx.fillStyle = '#0c1a30'
+      ctx.fillRect(0, 0, contentWidth, height)
+
+      const mapY = (contentHeight - MAP_HEIGHT) / 2
+      ctx.drawImage(mapImage, 0, mapY, MAP_WIDTH, MAP_HEIGHT)
+      if (globeImage) {
+        ctx.drawImage(
+          globeImage,
+          MAP_WIDTH + COMBO_GAP,
+          (contentHeight - globeSize) / 2,
+          globeSize,
+          globeSize
         )
-        style.textContent = styleText
-        defs.appendChild(style)
+      }
+      drawWatermark(ctx, WATERMARK_URL, contentWidth, height)
+      return canvas
+    },
+    [mapExportStyles, globeExportStyles]
+  )
 
-        const serializer = new XMLSerializer()
-        const svgText = serializer.serializeToString(svgClone)
-        const blob = new Blob([svgText], {
-          type: 'image/svg+xml;charset=utf-8',
-        })
-        const url = URL.createObjectURL(blob)
-        const image = new Image()
-        image.decoding = 'async'
-        image.onload = () => {
-          URL.revokeObjectURL(url)
-          resolve(image)
-        }
-        image.onerror = () => {
-          URL.revokeObjectURL(url)
-          reject(new Error('Failed to load SVG image.'))
-        }
-        image.src = url
-      }),
-    []
+  const createPng = useCallback(
+    async (layout: AnimationLayout) => {
+      const canvas = await renderExportCanvas(
+        layout,
+        Math.max(1, window.devicePixelRatio || 1)
+      )
+      return canvas ? canvas.toDataURL('image/png') : null
+    },
+    [renderExportCanvas]
   )
 
-  const drawWatermark = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    ctx.fillStyle = 'rgba(248, 245, 239, 0.65)'
-    ctx.font = '12px "IBM Plex Sans", "Segoe UI", sans-serif'
-    ctx.textAlign = 'center'
-    ctx.textBaseline = 'middle'
-    ctx.fillText(WATERMARK_URL, width / 2, height - WATERMARK_HEIGHT / 2)
-  }, [])
+  // Each animation frame is the live view at that rotation, so the frames
+  // match the PNG export exactly.
+  const renderAnimationFrame = useCallback(
+    async (rotation: Vec3, layout: AnimationLayout, scale: number) => {
+      setEquatorRotation(rotation)
+      await waitForPaint()
+      return renderExportCanvas(layout, scale)
+    },
+    [renderExportCanvas]
+  )
 
-  const createMapPng = useCallback(async () => {
-    if (!mapSvgRef.current) {
-      return null
-    }
-    const image = await createSvgImage(
-      mapSvgRef.current,
-      mapExportStyles,
-      MAP_WIDTH,
-      MAP_HEIGHT
-    )
-    const scale = Math.max(1, window.devicePixelRatio || 1)
-    const height = MAP_HEIGHT + WATERMARK_HEIGHT
-    const canvas = document.createElement('canvas')
-    canvas.width = MAP_WIDTH * scale
-    canvas.height = height * scale
-    const ctx = canvas.getContext('2d')
-    if (!ctx) {
-      return null
-    }
-    ctx.scale(scale, scale)
-    ctx.fillStyle = '#0c1a30'
-    ctx.fillRect(0, 0, MAP_WIDTH, height)
-    ctx.drawImage(image, 0, 0, MAP_WIDTH, MAP_HEIGHT)
-    drawWatermark(ctx, MAP_WIDTH, height)
-    return canvas.toDataURL('image/png')
-  }, [createSvgImage, drawWatermark, mapExportStyles])
+  const {
+    progress: animationProgress,
+    status: animationStatus,
+    exportAnimation,
+    cancel: cancelAnimationExport,
+  } = useAnimationExport(renderAnimationFrame, 'custom-equator-animation')
 
-  const createComboPng = useCallback(async () => {
-    if (!mapSvgRef.current || !globeSvgRef.current) {
-      return null
-    }
-    const [mapImage, globeImage] = await Promise.all([
-      createSvgImage(
-        mapSvgRef.current,
-        mapExportStyles,
-        MAP_WIDTH,
-        MAP_HEIGHT
-      ),
-      createSvgImage(
-        globeSvgRef.current,
-        globeExportStyles,
-        GLOBE_SIZE,
-        GLOBE_SIZE
-      ),
-    ])
+  const isExporting = animationProgress !== null
 
-    const globeSize = Math.round(GLOBE_SIZE * COMBO_GLOBE_SCALE)
-    const contentHeight = Math.max(MAP_HEIGHT, globeSize)
-    const contentWidth = MAP_WIDTH + COMBO_GAP + globeSize
-    const height = contentHeight + WATERMARK_HEIGHT
-    const scale = Math.max(1, window.devicePixelRatio || 1)
-    const canvas = document.createElement('canvas')
-    canvas.width = contentWidth * scale
-    canvas.height = height * scale
-    const ctx = canvas.getContext('2d')
-    if (!ctx) {
-      return null
+  const handleExportAnimation = async (settings: AnimationExportSettings) => {
+    const startRotation = equatorRotation
+    exportingRef.current = true
+    // Drop any drag in progress so it cannot move the frames.
+    equatorDragState.current = null
+    globeDragState.current = null
+    mapDragState.current = null
+    setEquatorDragging(false)
+    setGlobeDragging(false)
+    setMapDragging(false)
+    setDraggingId(null)
+    try {
+      await exportAnimation(settings)
+    } finally {
+      exportingRef.current = false
+      setEquatorRotation(startRotation)
     }
-    ctx.scale(scale, scale)
-    ctx.fillStyle = '#0c1a30'
-    ctx.fillRect(0, 0, contentWidth, height)
-
-    const mapY = (contentHeight - MAP_HEIGHT) / 2
-    const globeY = (contentHeight - globeSize) / 2
-    ctx.drawImage(mapImage, 0, mapY, MAP_WIDTH, MAP_HEIGHT)
-    ctx.drawImage(
-      globeImage,
-      MAP_WIDTH + COMBO_GAP,
-      globeY,
-      globeSize,
-      globeSize
-    )
-    drawWatermark(ctx, contentWidth, height)
-    return canvas.toDataURL('image/png')
-  }, [createSvgImage, drawWatermark, mapExportStyles, globeExportStyles])
+  }
 
   const generatePreviews = useCallback(async () => {
     setPreviewLoading(true)
     try {
-      const results = await Promise.allSettled([createMapPng(), createComboPng()])
+      const results = await Promise.allSettled([
+        createPng('map'),
+        createPng('combo'),
+      ])
       const mapUrl = results[0].status === 'fulfilled' ? results[0].value : null
       const comboUrl =
         results[1].status === 'fulfilled' ? results[1].value : null
@@ -634,7 +757,7 @@ const EquatorShiftView = ({
     } finally {
       setPreviewLoading(false)
     }
-  }, [createMapPng, createComboPng])
+  }, [createPng])
 
   const handleOpenDownloadModal = useCallback(() => {
     setMapPreviewUrl(null)
@@ -653,10 +776,7 @@ const EquatorShiftView = ({
     if (!dataUrl) {
       return
     }
-    const link = document.createElement('a')
-    link.download = filename
-    link.href = dataUrl
-    link.click()
+    downloadDataUrl(dataUrl, filename)
   }, [])
 
   useEffect(() => {
@@ -679,13 +799,28 @@ const EquatorShiftView = ({
       <section className="equator-panel">
         <div className="equator-panel-header">
           <div>
-            <h2>Mercator projection</h2>
+            <h2>{projectionOption.label} projection</h2>
             <p>
               The map recalculates the moment the equator tilts. Watch how the
               same world stretches in new directions.
             </p>
+            <p>{projectionOption.description}</p>
           </div>
-          <div className="equator-panel-actions">
+          <fieldset className="equator-panel-actions" disabled={isExporting}>
+            <ProjectionSelect
+              value={projectionId}
+              options={EQUATOR_PROJECTIONS}
+              onChange={setProjectionId}
+            />
+            <TissotControls settings={tissotSettings} onChange={onTissotChange} />
+            <button
+              className={`solar-toggle ${heatmapEnabled ? 'is-on' : ''}`}
+              type="button"
+              aria-pressed={heatmapEnabled}
+              onClick={onToggleHeatmap}
+            >
+              Heatmap {heatmapEnabled ? 'on' : 'off'}
+            </button>
             <button
               className="github-button icon-button"
               type="button"
@@ -705,7 +840,7 @@ const EquatorShiftView = ({
             >
               <RotateCcw size={16} aria-hidden="true" />
             </button>
-          </div>
+          </fieldset>
         </div>
         <div className="map-frame equator-map-frame">
           {loading && <div className="map-loading">Loading map...</div>}
@@ -715,7 +850,7 @@ const EquatorShiftView = ({
               className="map-svg equator-map"
               viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
               role="img"
-              aria-label="Mercator projection with a custom equator"
+              aria-label={`${projectionOption.label} projection with a custom equator`}
               ref={mapSvgRef}
             >
               <defs>
@@ -735,6 +870,17 @@ const EquatorShiftView = ({
                 </filter>
               </defs>
               <rect className="map-ocean" width={MAP_WIDTH} height={MAP_HEIGHT} />
+              <path className="map-sphere" d={mapSphere} />
+              {heatmapEnabled && heatmapUrl ? (
+                <image
+                  className="distortion-heatmap"
+                  href={heatmapUrl}
+                  width={MAP_WIDTH}
+                  height={MAP_HEIGHT}
+                  preserveAspectRatio="none"
+                  opacity={HEATMAP_OPACITY}
+                />
+              ) : null}
               <g className="world-base">
                 {worldFeatures.map((feature, index) => (
                   <path
@@ -743,6 +889,11 @@ const EquatorShiftView = ({
                   />
                 ))}
               </g>
+              <TissotLayer
+                circles={tissotCircles}
+                pathGenerator={mapPathGenerator}
+                getDistortion={getTissotDistortion}
+              />
               <g className="countries">
                 {renderedCountries.map((item) => (
                   <g
@@ -768,6 +919,15 @@ const EquatorShiftView = ({
                 className="equator-line"
                 d={mapPathGenerator(equatorLine) ?? ''}
               />
+              {centralMeridianLine ? (
+                <path
+                  className="equator-meridian"
+                  d={mapPathGenerator(centralMeridianLine) ?? ''}
+                />
+              ) : null}
+              {heatmapEnabled ? (
+                <HeatmapLegend x={MAP_WIDTH - 244} y={MAP_HEIGHT - 34} />
+              ) : null}
             </svg>
           )}
         </div>
@@ -779,7 +939,7 @@ const EquatorShiftView = ({
             <h2>3D Earth</h2>
             <p>Drag the red handle to tilt the equator. Drag the globe to spin.</p>
           </div>
-          <div className="equator-panel-actions">
+          <fieldset className="equator-panel-actions" disabled={isExporting}>
             <button
               className="github-button icon-button"
               type="button"
@@ -789,7 +949,7 @@ const EquatorShiftView = ({
             >
               <RotateCcw size={16} aria-hidden="true" />
             </button>
-          </div>
+          </fieldset>
         </div>
         <div className="globe-frame equator-globe-frame">
           {loading && <div className="map-loading">Loading globe...</div>}
@@ -832,6 +992,12 @@ const EquatorShiftView = ({
                 className="equator-line"
                 d={globePathGenerator(equatorLine) ?? ''}
               />
+              {centralMeridianLine ? (
+                <path
+                  className="equator-meridian"
+                  d={globePathGenerator(centralMeridianLine) ?? ''}
+                />
+              ) : null}
               {equatorHandlePoint && equatorHandleVisible ? (
                 <circle
                   className={`equator-handle ${
@@ -862,6 +1028,19 @@ const EquatorShiftView = ({
             </span>
           </div>
         </div>
+        <EquatorControls
+          rotation={equatorRotation}
+          disabled={isExporting}
+          onChange={handleRotationInput}
+        />
+        <EquatorAnimationControls
+          rotation={equatorRotation}
+          frameWidths={EXPORT_WIDTHS}
+          progress={animationProgress}
+          status={animationStatus}
+          onExport={handleExportAnimation}
+          onCancel={cancelAnimationExport}
+        />
       </section>
       <section className="equator-panel equator-settings-card">
         <div className="equator-panel-header">
@@ -869,12 +1048,15 @@ const EquatorShiftView = ({
             <h2>Country settings</h2>
             <p>
               Choose which countries to highlight, then drag them to see how a
-              tilted equator reshapes the Mercator projection.
+              tilted equator reshapes the chosen projection.
             </p>
           </div>
         </div>
         <div className="equator-settings-body">
-          <div className="equator-settings-content">
+          <fieldset
+            className="equator-settings-content"
+            disabled={isExporting}
+          >
             <div className="panel-section">
               <div className="panel-subtitle">Draggable set</div>
               <div className="drag-search">
@@ -940,7 +1122,7 @@ const EquatorShiftView = ({
                 )}
               </div>
             </div>
-          </div>
+          </fieldset>
           <div className="equator-settings-video">
             <iframe
               src="https://www.youtube.com/embed/PufwM4Vo3W4"
@@ -959,6 +1141,29 @@ const EquatorShiftView = ({
           dramatic near the poles.
         </div>
       </section>
+      <section className="equator-panel equator-ranking-card">
+        <div className="equator-panel-header">
+          <div>
+            <h2>Distortion ranking</h2>
+            <p>
+              Which countries grew or shrank with this equator, without
+              dragging each one. Sort by any column, or let the lab search for
+              the rotation that distorts one country least.
+            </p>
+          </div>
+        </div>
+        <DistortionRanking
+          countries={countries}
+          projection={equatorProjection}
+          projectionId={projectionId}
+          projectionLabel={projectionOption.label}
+          rotation={equatorRotation}
+          selectedId={selectedId}
+          disabled={isExporting}
+          onSelectCountry={onSelectCountry}
+          onRotationChange={handleRotationInput}
+        />
+      </section>
       {downloadModalOpen && (
         <div className="download-modal" role="dialog" aria-modal="true">
           <div
@@ -1,13 +1,50 @@
-import type { PointerEvent as ReactPointerEvent } from 'react'
+import type {
+  KeyboardEvent as ReactKeyboardEvent,
+  MouseEvent as ReactMouseEvent,
+  PointerEvent as ReactPointerEvent,
+} from 'react'
 import { Maximize2, Minimize2, ZoomIn, ZoomOut } from 'lucide-react'
 import type { GeoPermissibleObjects } from 'd3-geo'
 import type {
   CountryDatum,
   CountryFeature,
+  DistanceUnit,
+  GlobeBearingHandle,
   GlobeHighlightCountry,
+  LonLat,
+  MeasurePath,
+  PlanetLighting,
+  StampOverlay,
+  StampSelection,
+  StatusMessage,
+  TissotCircle,
+  TissotSettings,
 } from '../types'
-import { EARTH_DIAMETER_KM, PLANETS, PLANET_COLORS } from '../solar'
-import type { Planet } from '../solar'
+import type { ProjectionDistortion } from '../utils/projections'
+import { createDiskSquash } from '../utils/planetShape'
+import {
+  CUSTOM_BODY_ID,
+  EARTH_DIAMETER_KM,
+  PLANETS,
+  PLANET_COLORS,
+  PLANET_GROUPS,
+} from '../solar'
+import type { BodyId, CustomBody, SolarBody } from '../solar'
+import BearingHandle from './BearingHandle'
+import BearingInput from './BearingInput'
+import CountryAreaMetrics from './CountryAreaMetrics'
+import CustomBodyControls from './CustomBodyControls'
+import RegionToggle from './RegionToggle'
+import ShapeImport from './ShapeImport'
+import StampControls from './StampControls'
+import SelectionGroupSummary from './SelectionGroupSummary'
+import KeyboardStepSelect from './KeyboardStepSelect'
+import MeasureLayer from './MeasureLayer'
+import MeasurePanel from './MeasurePanel'
+import PlanetLightingControls from './PlanetLightingControls'
+import PlanetRing from './PlanetRing'
+import TissotControls from './TissotControls'
+import TissotLayer from './TissotLayer'
 
 type GlobeViewProps = {
   loading: boolean
@@ -16,6 +53,10 @@ type GlobeViewProps = {
   globePathGenerator: (input: GeoPermissibleObjects) => string | null
   globeSphere: GeoPermissibleObjects
   globeGraticule: GeoPermissibleObjects
+  tissotSettings: TissotSettings
+  onTissotChange: (settings: TissotSettings) => void
+  tissotCircles: TissotCircle[]
+  getTissotDistortion: (center: LonLat) => ProjectionDistortion | null
   planetPathGenerator: (input: GeoPermissibleObjects) => string | null
   planetGraticule: GeoPermissibleObjects
   globeHighlightCountries: GlobeHighlightCountry[]
@@ -24,8 +65,8 @@ type GlobeViewProps = {
   planetDragging: boolean
   solarSystemEnabled: boolean
   isGlobeFullscreen: boolean
-  activePlanet: Planet
-  activePlanetId: Planet['id']
+  activePlanet: SolarBody
+  activePlanetId: BodyId
   planetRatio: number
   planetZoom: number
   canPlanetZoomIn: boolean
@@ -33,6 +74,7 @@ type GlobeViewProps = {
   planetCountries: Array<{ country: CountryDatum; feature: CountryFeature }>
   areaFormatter: Intl.NumberFormat
   selectedCountry: CountryDatum | null
+  selectionGroup: CountryDatum[]
   draggableCountries: CountryDatum[]
   countryFilter: string
   filteredCountries: CountryDatum[]
@@ -40,6 +82,12 @@ type GlobeViewProps = {
   globeSize: number
   planetPreviewSize: number
   planetRadius: number
+  planetAxisRatio: number
+  planetViewLatitude: number
+  planetRings: { innerRadius: number; outerRadius: number } | null
+  planetNightSide: GeoPermissibleObjects[]
+  planetLighting: PlanetLighting
+  onPlanetLightingChange: (lighting: PlanetLighting) => void
   globeFrameRef: React.RefObject<HTMLDivElement>
   globeSvgRef: React.RefObject<SVGSVGElement>
   planetCanvasRef: React.RefObject<HTMLCanvasElement>
@@ -51,21 +99,68 @@ type GlobeViewProps = {
   onSetGlobeDragMode: (mode: 'rotate' | 'country') => void
   onToggleSolarSystem: () => void
   onGlobePointerDown: (event: ReactPointerEvent<SVGSVGElement>) => void
+  measureEnabled: boolean
+  measureUnit: DistanceUnit
+  measurePaths: MeasurePath[]
+  measureDraft: LonLat[]
+  onToggleMeasure: () => void
+  onMeasureUnitChange: (unit: DistanceUnit) => void
+  onMeasurePointerDown: (event: ReactPointerEvent<SVGSVGElement>) => void
+  onMeasureClick: (event: ReactMouseEvent<SVGSVGElement>) => void
+  onFinishMeasure: (closed: boolean) => void
+  onUndoMeasure: () => void
+  onRemoveMeasure: (id: number) => void
+  onClearMeasure: () => void
   onGlobeCountryPointerDown: (
     event: ReactPointerEvent<SVGPathElement>,
     country: CountryDatum
   ) => void
+  bearingHandle: GlobeBearingHandle | null
+  onBearingHandlePointerDown: (
+    event: ReactPointerEvent<SVGCircleElement>,
+    country: CountryDatum
+  ) => void
+  onCountryBearingChange: (id: string, bearing: number) => void
   onPlanetPointerDown: (event: ReactPointerEvent<SVGSVGElement>) => void
   onPlanetCountryPointerDown: (
     event: ReactPointerEvent<SVGPathElement>,
     country: CountryDatum
   ) => void
+  onGlobeKeyDown: (event: ReactKeyboardEvent<SVGSVGElement>) => void
+  onGlobeCountryKeyDown: (
+    event: ReactKeyboardEvent<SVGPathElement>,
+    country: CountryDatum
+  ) => void
+  onPlanetKeyDown: (event: ReactKeyboardEvent<SVGSVGElement>) => void
+  onPlanetCountryKeyDown: (
+    event: ReactKeyboardEvent<SVGPathElement>,
+    country: CountryDatum
+  ) => void
+  onPlaceSelectedOnPlanet: () => void
+  keyboardStep: number
+  onKeyboardStepChange: (step: number) => void
   onPlanetZoomIn: () => void
   onPlanetZoomOut: () => void
-  onSelectPlanet: (id: Planet['id']) => void
+  onSelectPlanet: (id: BodyId) => void
+  customBody: CustomBody
+  customBodyTextureStatus: StatusMessage | null
+  onCustomBodyChange: (changes: Partial<Omit<CustomBody, 'textureUrl'>>) => void
+  onImportCustomBodyTexture: (file: File) => void
+  onClearCustomBodyTexture: () => void
   onFocusCountry: (country: CountryDatum) => void
   onCountryFilterChange: (value: string) => void
   onToggleDraggable: (id: string) => void
+  countries: CountryDatum[]
+  stampSelection: StampSelection | null
+  stampOverlays: StampOverlay[]
+  onStampChange: (selection: StampSelection | null) => void
+  regionsEnabled: boolean
+  regionsLoading: boolean
+  regionsError: string | null
+  detailError: string | null
+  onToggleRegions: () => void
+  shapeImportStatus: StatusMessage | null
+  onImportShape: (file: File) => void
   formatLatitude: (lat: number) => string
   formatLongitude: (lon: number) => string
   formatPlanetRatio: (ratio: number) => string
@@ -78,6 +173,10 @@ const GlobeView = ({
   globePathGenerator,
   globeSphere,
   globeGraticule,
+  tissotSettings,
+  onTissotChange,
+  tissotCircles,
+  getTissotDistortion,
   planetPathGenerator,
   planetGraticule,
   globeHighlightCountries,
@@ -95,6 +194,7 @@ const GlobeView = ({
   planetCountries,
   areaFormatter,
   selectedCountry,
+  selectionGroup,
   draggableCountries,
   countryFilter,
   filteredCountries,
@@ -102,6 +202,12 @@ const GlobeView = ({
   globeSize,
   planetPreviewSize,
   planetRadius,
+  planetAxisRatio,
+  planetViewLatitude,
+  planetRings,
+  planetNightSide,
+  planetLighting,
+  onPlanetLightingChange,
   globeFrameRef,
   globeSvgRef,
   planetCanvasRef,
@@ -113,15 +219,53 @@ const GlobeView = ({
   onSetGlobeDragMode,
   onToggleSolarSystem,
   onGlobePointerDown,
+  measureEnabled,
+  measureUnit,
+  measurePaths,
+  measureDraft,
+  onToggleMeasure,
+  onMeasureUnitChange,
+  onMeasurePointerDown,
+  onMeasureClick,
+  onFinishMeasure,
+  onUndoMeasure,
+  onRemoveMeasure,
+  onClearMeasure,
   onGlobeCountryPointerDown,
+  bearingHandle,
+  onBearingHandlePointerDown,
+  onCountryBearingChange,
   onPlanetPointerDown,
   onPlanetCountryPointerDown,
+  onGlobeKeyDown,
+  onGlobeCountryKeyDown,
+  onPlanetKeyDown,
+  onPlanetCountryKeyDown,
+  onPlaceSelectedOnPlanet,
+  keyboardStep,
+  onKeyboardStepChange,
   onPlanetZoomIn,
   onPlanetZoomOut,
   onSelectPlanet,
+  customBody,
+  customBodyTextureStatus,
+  onCustomBodyChange,
+  onImportCustomBodyTexture,
+  onClearCustomBodyTexture,
   onFocusCountry,
   onCountryFilterChange,
   onToggleDraggable,
+  countries,
+  stampSelection,
+  stampOverlays,
+  onStampChange,
+  regionsEnabled,
+  regionsLoading,
+  regionsError,
+  detailError,
+  onToggleRegions,
+  shapeImportStatus,
+  onImportShape,
   formatLatitude,
   formatLongitude,
   formatPlanetRatio,
@@ -180,6 +324,22 @@ const GlobeView = ({
             >
               Solar system {solarSystemEnabled ? 'on' : 'off'}
             </button>
+            <button
+              className={`solar-toggle ${measureEnabled ? 'is-on' : ''}`}
+              type="button"
+              aria-pressed={measureEnabled}
+              onClick={onToggleMeasure}
+            >
+              Ruler {measureEnabled ? 'on' : 'off'}
+            </button>
+            <KeyboardStepSelect
+              value={keyboardStep}
+              onChange={onKeyboardStepChange}
+            />
+            <TissotControls
+              settings={tissotSettings}
+              onChange={onTissotChange}
+            />
           </div>
         </div>
       </div>
@@ -195,11 +355,16 @@ const GlobeView = ({
             <svg
               className={`globe-svg ${globeDragging ? 'is-dragging' : ''} ${
                 globeActiveMode === 'country' ? 'is-country-mode' : ''
-              }`}
+              } ${measureEnabled ? 'is-measuring' : ''}`}
               viewBox={`0 0 ${globeSize} ${globeSize}`}
-              role="img"
+              role="group"
               aria-label="Orthographic globe with countries"
+              aria-describedby="globe-keyboard-hint"
+              tabIndex={0}
               onPointerDown={onGlobePointerDown}
+              onPointerDownCapture={onMeasurePointerDown}
+              onClick={onMeasureClick}
+              onKeyDown={onGlobeKeyDown}
               ref={globeSvgRef}
             >
               <defs>
@@ -225,6 +390,11 @@ const GlobeView = ({
                   />
                 ))}
               </g>
+              <TissotLayer
+                circles={tissotCircles}
+                pathGenerator={globePathGenerator}
+                getDistortion={getTissotDistortion}
+              />
               <g
                 className={`globe-highlight ${
                   globeActiveMode === 'country' ? 'is-draggable' : ''
@@ -233,14 +403,49 @@ const GlobeView = ({
                 {globeHighlightCountries.map(({ country, feature }) => (
                   <path
                     key={`globe-country-${country.id}`}
+                    className={
+                      selectionGroup.length > 1 &&
+                      selectionGroup.some((member) => member.id === country.id)
+                        ? 'is-selected'
+                        : undefined
+                    }
                     d={globePathGenerator(feature) ?? ''}
                     fill={country.color}
                     onPointerDown={(event) =>
                       onGlobeCountryPointerDown(event, country)
                     }
+                    onKeyDown={(event) => onGlobeCountryKeyDown(event, country)}
+                    tabIndex={0}
+                    role="button"
+                    aria-label={`Move ${country.name}`}
+                  />
+                ))}
+              </g>
+              <g className="stamp-overlays" aria-hidden="true">
+                {stampOverlays.map((item) => (
+                  <path
+                    key={`globe-stamp-${item.country.id}`}
+                    className="stamp-outline"
+                    d={globePathGenerator(item.feature) ?? ''}
+                    stroke={item.country.color}
                   />
                 ))}
               </g>
+              <MeasureLayer
+                paths={measurePaths}
+                draft={measureDraft}
+                unit={measureUnit}
+                pathGenerator={globePathGenerator}
+                areaFormatter={areaFormatter}
+              />
+              {bearingHandle ? (
+                <BearingHandle
+                  handle={bearingHandle}
+                  step={keyboardStep}
+                  onPointerDown={onBearingHandlePointerDown}
+                  onChange={onCountryBearingChange}
+                />
+              ) : null}
             </svg>
           </div>
         )}
@@ -257,7 +462,7 @@ const GlobeView = ({
                 <span className="planet-title-row">
                   <span
                     className="planet-dot"
-                    style={{ backgroundColor: PLANET_COLORS[activePlanet.id] }}
+                    style={{ backgroundColor: activePlanet.color }}
                     aria-hidden="true"
                   />
                   <span className="planet-title">{activePlanet.name}</span>
@@ -290,6 +495,23 @@ const GlobeView = ({
               </div>
             </div>
             <div className="planet-visual">
+              {planetRings ? (
+                <svg
+                  className="planet-rings-back"
+                  viewBox={`0 0 ${planetPreviewSize} ${planetPreviewSize}`}
+                  aria-hidden="true"
+                >
+                  <PlanetRing
+                    cx={planetPreviewSize / 2}
+                    cy={planetPreviewSize / 2}
+                    innerRadius={planetRings.innerRadius}
+                    outerRadius={planetRings.outerRadius}
+                    viewLatitude={planetViewLatitude}
+                    half="back"
+                    color={activePlanet.color}
+                  />
+                </svg>
+              ) : null}
               <canvas
                 className="planet-canvas"
                 width={planetPreviewSize}
@@ -302,10 +524,12 @@ const GlobeView = ({
                   globeActiveMode === 'rotate' ? 'is-rotatable' : ''
                 } ${planetDragging ? 'is-dragging' : ''}`}
                 viewBox={`0 0 ${planetPreviewSize} ${planetPreviewSize}`}
-                role="img"
+                role="group"
                 aria-label={`Planet preview of ${activePlanet.name}`}
+                tabIndex={0}
                 ref={planetSvgRef}
                 onPointerDown={onPlanetPointerDown}
+                onKeyDown={onPlanetKeyDown}
               >
                 <defs>
                   <radialGradient id="planetHighlight" cx="32%" cy="30%" r="70%">
@@ -321,35 +545,69 @@ const GlobeView = ({
                     />
                   </clipPath>
                 </defs>
-                <circle
-                  className="planet-sphere"
-                  cx={planetPreviewSize / 2}
-                  cy={planetPreviewSize / 2}
-                  r={planetRadius}
-                />
-                <g clipPath="url(#planetClip)">
-                  <g className="planet-graticule">
-                    <path d={planetPathGenerator(planetGraticule) ?? ''} />
+                {/* Oblate bodies: the round orthographic disk is squashed
+                    vertically, and the canvas and pointer maths match. */}
+                <g
+                  transform={
+                    createDiskSquash(planetPreviewSize / 2, planetAxisRatio)
+                      .transform
+                  }
+                >
+                  <circle
+                    className="planet-sphere"
+                    cx={planetPreviewSize / 2}
+                    cy={planetPreviewSize / 2}
+                    r={planetRadius}
+                  />
+                  <g clipPath="url(#planetClip)">
+                    <g className="planet-graticule">
+                      <path d={planetPathGenerator(planetGraticule) ?? ''} />
+                    </g>
+                    {planetCountries.map((item) => (
+                      <path
+                        key={`planet-country-${item.country.id}`}
+                        className="planet-country"
+                        d={planetPathGenerator(item.feature) ?? ''}
+                        fill={item.country.color}
+                        onPointerDown={(event) =>
+                          onPlanetCountryPointerDown(event, item.country)
+                        }
+                        onKeyDown={(event) =>
+                          onPlanetCountryKeyDown(event, item.country)
+                        }
+                        tabIndex={0}
+                        role="button"
+                        aria-label={`Move ${item.country.name} on ${activePlanet.name}`}
+                      />
+                    ))}
+                    <g className="planet-night" aria-hidden="true">
+                      {planetNightSide.map((cap, index) => (
+                        <path
+                          key={`planet-night-${index}`}
+                          d={planetPathGenerator(cap) ?? ''}
+                        />
+                      ))}
+                    </g>
                   </g>
-                {planetCountries.map((item) => (
-                  <path
-                    key={`planet-country-${item.country.id}`}
-                    className="planet-country"
-                    d={planetPathGenerator(item.feature) ?? ''}
-                    fill={item.country.color}
-                    onPointerDown={(event) =>
-                      onPlanetCountryPointerDown(event, item.country)
-                    }
+                  <circle
+                    className="planet-shade"
+                    cx={planetPreviewSize / 2}
+                    cy={planetPreviewSize / 2}
+                    r={planetRadius}
+                    fill="url(#planetHighlight)"
                   />
-                ))}
                 </g>
-                <circle
-                  className="planet-shade"
-                  cx={planetPreviewSize / 2}
-                  cy={planetPreviewSize / 2}
-                  r={planetRadius}
-                  fill="url(#planetHighlight)"
-                />
+                {planetRings ? (
+                  <PlanetRing
+                    cx={planetPreviewSize / 2}
+                    cy={planetPreviewSize / 2}
+                    innerRadius={planetRings.innerRadius}
+                    outerRadius={planetRings.outerRadius}
+                    viewLatitude={planetViewLatitude}
+                    half="front"
+                    color={activePlanet.color}
+                  />
+                ) : null}
                 {planetCountries.length === 0 ? (
                   <text
                     className="planet-placeholder"
@@ -364,7 +622,7 @@ const GlobeView = ({
               </svg>
             </div>
             <div className="planet-inset-meta">
-              {areaFormatter.format(activePlanet.diameterKm)} km ·{' '}
+              {areaFormatter.format(Math.round(activePlanet.diameterKm))} km ·{' '}
               {formatPlanetRatio(planetRatio)}
             </div>
           </div>
@@ -382,10 +640,15 @@ const GlobeView = ({
 
       <p className="globe-hint">
         {globeActiveMode === 'rotate'
-          ? 'Drag to spin the globe. The comparison set stays at true scale. Hold Cmd/Ctrl to drag countries.'
+          ? 'Drag to spin the globe. The comparison set stays at true scale. Hold Cmd/Ctrl to drag countries, or drag the round handle on the selected country to turn it.'
           : solarSystemEnabled
-            ? 'Drag a highlighted country to move it across the globe or drop it on the planet preview.'
-            : 'Drag a highlighted country to move it across the globe.'}
+            ? 'Drag a highlighted country to move it across the globe or drop it on the planet preview. Shift-click to drag several as a group.'
+            : 'Drag a highlighted country to move it across the globe. Shift-click to drag several as a group.'}
+      </p>
+      <p className="globe-hint" id="globe-keyboard-hint">
+        Keyboard: arrow keys rotate the focused globe; Tab to a highlighted
+        country and use the arrow keys to move it, or to the selected
+        country's round handle to turn it.
       </p>
     </section>
 
@@ -412,57 +675,175 @@ const GlobeView = ({
               {formatLatitude(selectedCountry.globeCentroid[1])}
             </span>
           </div>
-          <div className="panel-metric">
-            <span className="metric-label">Area</span>
-            <span className="metric-value">
-              {selectedCountry.area
-                ? `${areaFormatter.format(selectedCountry.area)} km²`
-                : 'Unknown'}
-            </span>
-          </div>
+          <BearingInput
+            countryName={selectedCountry.name}
+            bearing={selectedCountry.bearing}
+            onChange={(bearing) =>
+              onCountryBearingChange(selectedCountry.id, bearing)
+            }
+          />
+          <CountryAreaMetrics
+            country={selectedCountry}
+            comparisonCountries={draggableCountries}
+            areaFormatter={areaFormatter}
+          />
+          {solarSystemEnabled ? (
+            <button
+              className="github-button"
+              type="button"
+              onClick={onPlaceSelectedOnPlanet}
+            >
+              Place on {activePlanet.name}
+            </button>
+          ) : null}
         </div>
       ) : (
         <div className="panel-empty">Pick a country from the comparison set.</div>
       )}
       {solarSystemEnabled && (
         <div className="panel-section planet-section">
-          <div className="panel-subtitle">Planet scale</div>
-          <div className="planet-list">
-            {PLANETS.map((planet) => {
-              const ratio = planet.diameterKm / EARTH_DIAMETER_KM
-              return (
-                <button
-                  key={planet.id}
-                  className={`planet-item ${
-                    activePlanetId === planet.id ? 'is-active' : ''
-                  }`}
-                  type="button"
-                  aria-pressed={activePlanetId === planet.id}
-                  onClick={() => onSelectPlanet(planet.id)}
-                >
-                  <span className="planet-name-row">
-                    <span
-                      className="planet-dot"
-                      style={{ backgroundColor: PLANET_COLORS[planet.id] }}
-                      aria-hidden="true"
-                    />
-                    <span className="planet-name">{planet.name}</span>
-                  </span>
-                  <span className="planet-meta">
-                    {areaFormatter.format(planet.diameterKm)} km ·{' '}
-                    {formatPlanetRatio(ratio)}
-                  </span>
-                </button>
-              )
-            })}
+          <div className="panel-subtitle">Body scale</div>
+          {PLANET_GROUPS.map((group) => (
+            <div
+              key={group.id}
+              className="planet-group"
+              role="group"
+              aria-labelledby={`planet-group-${group.id}`}
+            >
+              <div className="planet-group-label" id={`planet-group-${group.id}`}>
+                {group.label}
+              </div>
+              <div className="planet-list">
+                {PLANETS.filter((planet) => planet.group === group.id).map(
+                  (planet) => {
+                    const ratio = planet.diameterKm / EARTH_DIAMETER_KM
+                    return (
+                      <button
+                        key={planet.id}
+                        className={`planet-item ${
+                          activePlanetId === planet.id ? 'is-active' : ''
+                        }`}
+                        type="button"
+                        aria-pressed={activePlanetId === planet.id}
+                        onClick={() => onSelectPlanet(planet.id)}
+                      >
+                        <span className="planet-name-row">
+                          <span
+                            className="planet-dot"
+                            style={{ backgroundColor: PLANET_COLORS[planet.id] }}
+                            aria-hidden="true"
+                          />
+                          <span className="planet-name">{planet.name}</span>
+                          {'parent' in planet ? (
+                            <span className="planet-parent">
+                              of {planet.parent}
+                            </span>
+                          ) : null}
+                        </span>
+                        <span className="planet-meta">
+                          {areaFormatter.format(planet.diameterKm)} km ·{' '}
+                          {formatPlanetRatio(ratio)}
+                        </span>
+                      </button>
+                    )
+                  }
+                )}
+              </div>
+            </div>
+          ))}
+          <div
+            className="planet-group"
+            role="group"
+            aria-labelledby="planet-group-custom"
+          >
+            <div className="planet-group-label" id="planet-group-custom">
+              Custom
+            </div>
+            <button
+              className={`planet-item ${
+                activePlanetId === CUSTOM_BODY_ID ? 'is-active' : ''
+              }`}
+              type="button"
+              aria-pressed={activePlanetId === CUSTOM_BODY_ID}
+              onClick={() => onSelectPlanet(CUSTOM_BODY_ID)}
+            >
+              <span className="planet-name-row">
+                <span
+                  className="planet-dot"
+                  style={{ backgroundColor: customBody.color }}
+                  aria-hidden="true"
+                />
+                <span className="planet-name">
+                  {customBody.name.trim() || 'Custom body'}
+                </span>
+              </span>
+              <span className="planet-meta">
+                {areaFormatter.format(Math.round(customBody.diameterKm))} km ·{' '}
+                {formatPlanetRatio(customBody.diameterKm / EARTH_DIAMETER_KM)}
+              </span>
+            </button>
+            {activePlanetId === CUSTOM_BODY_ID ? (
+              <CustomBodyControls
+                body={customBody}
+                textureStatus={customBodyTextureStatus}
+                onChange={onCustomBodyChange}
+                onImportTexture={onImportCustomBodyTexture}
+                onClearTexture={onClearCustomBodyTexture}
+              />
+            ) : null}
           </div>
+          <div className="panel-subtitle">Lighting</div>
+          <PlanetLightingControls
+            lighting={planetLighting}
+            selfLuminous={activePlanet.selfLuminous}
+            bodyName={activePlanet.name}
+            onChange={onPlanetLightingChange}
+          />
           <div className="planet-hint">
-            Drag a highlighted country onto the planet preview.
+            Drag a highlighted country onto the preview to see it at that body's scale.
           </div>
         </div>
       )}
+      <SelectionGroupSummary
+        countries={selectionGroup}
+        areaFormatter={areaFormatter}
+      />
+      <MeasurePanel
+        enabled={measureEnabled}
+        unit={measureUnit}
+        paths={measurePaths}
+        draft={measureDraft}
+        areaFormatter={areaFormatter}
+        onUnitChange={onMeasureUnitChange}
+        onFinish={onFinishMeasure}
+        onUndo={onUndoMeasure}
+        onRemove={onRemoveMeasure}
+        onClear={onClearMeasure}
+      />
+      <div className="panel-section">
+        <div className="panel-subtitle">Overlay stamp</div>
+        <StampControls
+          countries={countries}
+          selection={stampSelection}
+          defaultSourceId={selectedCountry?.id ?? null}
+          areaFormatter={areaFormatter}
+          onChange={onStampChange}
+        />
+      </div>
       <div className="panel-section">
         <div className="panel-subtitle">Custom set</div>
+        <RegionToggle
+          enabled={regionsEnabled}
+          loading={regionsLoading}
+          error={regionsError}
+          onToggle={onToggleRegions}
+        />
+        <ShapeImport status={shapeImportStatus} onImport={onImportShape} />
+        {detailError ? (
+          <div className="region-status is-error" role="alert">
+            {detailError}
+          </div>
+        ) : null}
         <div className="drag-search">
           <input
             type="search"
@@ -485,6 +866,12 @@ const GlobeView = ({
                     type="checkbox"
                     checked={isDraggable}
                     onChange={() => onToggleDraggable(country.id)}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') {
+                        event.preventDefault()
+                        onToggleDraggable(country.id)
+                      }
+                    }}
                   />
                   <span
                     className="legend-swatch"
@@ -492,6 +879,11 @@ const GlobeView = ({
                     aria-hidden="true"
                   />
                   <span>{country.name}</span>
+                  {country.kind !== 'country' ? (
+                    <span className="drag-item-kind">
+                      {country.kind === 'region' ? 'Region' : 'Custom'}
+                    </span>
+                  ) : null}
                 </label>
               )
             })
@@ -0,0 +1,77 @@
+import { useId } from 'react'
+import * as d3 from 'd3'
+import {
+  HEATMAP_DOMAIN,
+  HEATMAP_LEGEND_TICKS,
+  formatHeatmapTick,
+  heatmapColor,
+} from '../utils/heatmap'
+
+type HeatmapLegendProps = {
+  x: number
+  y: number
+}
+
+const LEGEND_WIDTH = 220
+const LEGEND_BAR_HEIGHT = 10
+const LEGEND_STOPS = 16
+
+const legendScale = d3
+  .scaleLog()
+  .domain(HEATMAP_DOMAIN)
+  .range([0, LEGEND_WIDTH / 2, LEGEND_WIDTH])
+
+// Drawn inside the SVG so PNG exports keep the key next to the colors.
+const HeatmapLegend = ({ x, y }: HeatmapLegendProps) => {
+  const gradientId = `heatmap-gradient-${useId().replace(/:/g, '')}`
+  return (
+    <g className="heatmap-legend" transform={`translate(${x} ${y})`}>
+      <defs>
+        <linearGradient id={gradientId}>
+          {d3.range(LEGEND_STOPS + 1).map((index) => {
+            const offset = index / LEGEND_STOPS
+            return (
+              <stop
+                key={index}
+                offset={offset}
+                stopColor={heatmapColor(
+                  legendScale.invert(offset * LEGEND_WIDTH)
+                )}
+              />
+            )
+          })}
+        </linearGradient>
+      </defs>
+      <rect
+        className="heatmap-legend-backdrop"
+        x={-12}
+        y={-26}
+        width={LEGEND_WIDTH + 24}
+        height={LEGEND_BAR_HEIGHT + 50}
+        rx={10}
+      />
+      <text className="heatmap-legend-title" y={-10}>
+        Area scale factor (log)
+      </text>
+      <rect
+        width={LEGEND_WIDTH}
+        height={LEGEND_BAR_HEIGHT}
+        rx={3}
+        fill={`url(#${gradientId})`}
+      />
+      {HEATMAP_LEGEND_TICKS.map((tick) => (
+        <text
+          key={tick}
+          className="heatmap-legend-tick"
+          x={legendScale(tick)}
+          y={LEGEND_BAR_HEIGHT + 14}
+          textAnchor="middle"
+        >
+          {formatHeatmapTick(tick)}
+        </text>
+      ))}
+    </g>
+  )
+}
+
+export default HeatmapLegend
@@ -0,0 +1,24 @@
+import { KEYBOARD_STEP_OPTIONS } from '../constants'
+
+type KeyboardStepSelectProps = {
+  value: number
+  onChange: (step: number) => void
+}
+
+const KeyboardStepSelect = ({ value, onChange }: KeyboardStepSelectProps) => (
+  <label className="keyboard-step">
+    <span>Arrow-key step</span>
+    <select
+      value={value}
+      onChange={(event) => onChange(Number(event.target.value))}
+    >
+      {KEYBOARD_STEP_OPTIONS.map((step) => (
+        <option key={step} value={step}>
+          {step}°
+        </option>
+      ))}
+    </select>
+  </label>
+)
+
+export default KeyboardStepSelect
@@ -1,12 +1,49 @@
-import type { PointerEvent as ReactPointerEvent } from 'react'
+import type {
+  KeyboardEvent as ReactKeyboardEvent,
+  MouseEvent as ReactMouseEvent,
+  PointerEvent as ReactPointerEvent,
+} from 'react'
+import type { RefObject } from 'react'
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react'
 import type { GeoPermissibleObjects } from 'd3-geo'
+import type {
+  MapProjectionOption,
+  ProjectionDistortion,
+} from '../utils/projections'
+import { MAP_PROJECTIONS } from '../utils/projections'
+import { HEATMAP_OPACITY } from '../utils/heatmap'
 import type {
   CountryDatum,
   CountryFeature,
+  DistanceUnit,
+  LonLat,
+  MapProjectionId,
   MapRenderedCountry,
+  MapTransform,
+  MeasurePath,
   SelectedDetails,
+  StampOverlay,
+  StampSelection,
+  StatusMessage,
+  TissotCircle,
+  TissotSettings,
+  Tour,
 } from '../types'
+import CountryAreaMetrics from './CountryAreaMetrics'
+import RegionToggle from './RegionToggle'
+import ShapeImport from './ShapeImport'
+import StampControls from './StampControls'
+import SelectionGroupSummary from './SelectionGroupSummary'
+import KeyboardStepSelect from './KeyboardStepSelect'
+import ProjectionSelect from './ProjectionSelect'
+import HeatmapLegend from './HeatmapLegend'
+import TissotControls from './TissotControls'
+import TissotLayer from './TissotLayer'
+import TourControls from './TourControls'
 import MapStaticPreview from './MapStaticPreview'
+import MeasureLayer from './MeasureLayer'
+import MeasurePanel from './MeasurePanel'
+import PlacementControls from './PlacementControls'
 
 type MapLatLine = {
   lat: number
@@ -17,18 +54,71 @@ type MapLatLine = {
   isEquator: boolean
 }
 
+type TourCaption = {
+  text: string
+  step: string
+  live: string
+}
+
 type MapViewProps = {
   loading: boolean
   error: string | null
   showStaticPreview?: boolean
   mapWidth: number
   mapHeight: number
+  mapSvgRef: RefObject<SVGSVGElement>
+  mapTransform: MapTransform
+  mapPanning: boolean
+  canZoomIn: boolean
+  canZoomOut: boolean
+  onMapPointerDown: (event: ReactPointerEvent<SVGSVGElement>) => void
+  onZoomIn: () => void
+  onZoomOut: () => void
+  onResetZoom: () => void
+  onExportPng: () => void
+  exportStatus: StatusMessage | null
+  projection: MapProjectionOption
+  onProjectionChange: (id: MapProjectionId) => void
+  tissotSettings: TissotSettings
+  onTissotChange: (settings: TissotSettings) => void
+  tissotCircles: TissotCircle[]
+  getTissotDistortion: (center: LonLat) => ProjectionDistortion | null
+  tours: Tour[]
+  activeTour: Tour | null
+  tourStepIndex: number
+  tourPlaying: boolean
+  tourProgress: number
+  tourCaption: TourCaption | null
+  tourImportStatus: StatusMessage | null
+  onSelectTour: (id: string | null) => void
+  onPlayTour: () => void
+  onPauseTour: () => void
+  onStepTourBack: () => void
+  onStepTourForward: () => void
+  onRestartTour: () => void
+  onImportTour: (file: File) => void
+  heatmapEnabled: boolean
+  heatmapUrl: string | null
+  onToggleHeatmap: () => void
+  measureEnabled: boolean
+  measureUnit: DistanceUnit
+  measurePaths: MeasurePath[]
+  measureDraft: LonLat[]
+  onToggleMeasure: () => void
+  onMeasureUnitChange: (unit: DistanceUnit) => void
+  onMeasurePointerDown: (event: ReactPointerEvent<SVGSVGElement>) => void
+  onMeasureClick: (event: ReactMouseEvent<SVGSVGElement>) => void
+  onFinishMeasure: (closed: boolean) => void
+  onUndoMeasure: () => void
+  onRemoveMeasure: (id: number) => void
+  onClearMeasure: () => void
   worldFeatures: CountryFeature[]
   pathGenerator: (input: GeoPermissibleObjects) => string | null
   latLines: MapLatLine[]
   renderedCountries: MapRenderedCountry[]
   draggableCountries: CountryDatum[]
   selectedCountry: CountryDatum | null
+  selectionGroup: CountryDatum[]
   selectedDetails: SelectedDetails | null
   selectedId: string | null
   countryFilter: string
@@ -37,14 +127,34 @@ type MapViewProps = {
   areaFormatter: Intl.NumberFormat
   formatLatitude: (lat: number) => string
   formatScale: (scale: number) => string
+  keyboardStep: number
+  onKeyboardStepChange: (step: number) => void
   onResetPositions: () => void
+  onPlaceSelected: (target: LonLat) => void
+  onSnapSelectedToEquator: () => void
+  onResetSelected: () => void
   onSelectCountry: (id: string) => void
   onCountryPointerDown: (
     event: ReactPointerEvent<SVGGElement>,
     country: CountryDatum
   ) => void
+  onCountryKeyDown: (
+    event: ReactKeyboardEvent<SVGGElement>,
+    country: CountryDatum
+  ) => void
   onCountryFilterChange: (value: string) => void
   onToggleDraggable: (id: string) => void
+  countries: CountryDatum[]
+  stampSelection: StampSelection | null
+  stampOverlays: StampOverlay[]
+  onStampChange: (selection: StampSelection | null) => void
+  regionsEnabled: boolean
+  regionsLoading: boolean
+  regionsError: string | null
+  detailError: string | null
+  onToggleRegions: () => void
+  shapeImportStatus: StatusMessage | null
+  onImportShape: (file: File) => void
 }
 
 const MapView = ({
@@ -53,12 +163,59 @@ const MapView = ({
   showStaticPreview = false,
   mapWidth,
   mapHeight,
+  mapSvgRef,
+  mapTransform,
+  mapPanning,
+  canZoomIn,
+  canZoomOut,
+  onMapPointerDown,
+  onZoomIn,
+  onZoomOut,
+  onResetZoom,
+  onExportPng,
+  exportStatus,
+  projection,
+  onProjectionChange,
+  tissotSettings,
+  onTissotChange,
+  tissotCircles,
+  getTissotDistortion,
+  tours,
+  activeTour,
+  tourStepIndex,
+  tourPlaying,
+  tourProgress,
+  tourCaption,
+  tourImportStatus,
+  onSelectTour,
+  onPlayTour,
+  onPauseTour,
+  onStepTourBack,
+  onStepTourForward,
+  onRestartTour,
+  onImportTour,
+  heatmapEnabled,
+  heatmapUrl,
+  onToggleHeatmap,
+  measureEnabled,
+  measureUnit,
+  measurePaths,
+  measureDraft,
+  onToggleMeasure,
+  onMeasureUnitChange,
+  onMeasurePointerDown,
+  onMeasureClick,
+  onFinishMeasure,
+  onUndoMeasure,
+  onRemoveMeasure,
+  onClearMeasure,
   worldFeatures,
   pathGenerator,
   latLines,
   renderedCountries,
   draggableCountries,
   selectedCountry,
+  selectionGroup,
   selectedDetails,
   selectedId,
   countryFilter,
@@ -67,11 +224,28 @@ const MapView = ({
   areaFormatter,
   formatLatitude,
   formatScale,
+  keyboardStep,
+  onKeyboardStepChange,
   onResetPositions,
+  onPlaceSelected,
+  onSnapSelectedToEquator,
+  onResetSelected,
   onSelectCountry,
   onCountryPointerDown,
+  onCountryKeyDown,
   onCountryFilterChange,
   onToggleDraggable,
+  countries,
+  stampSelection,
+  stampOverlays,
+  onStampChange,
+  regionsEnabled,
+  regionsLoading,
+  regionsError,
+  detailError,
+  onToggleRegions,
+  shapeImportStatus,
+  onImportShape,
 }: MapViewProps) => (
   <main className="layout" id="interactive-map">
     <section className="map-shell">
@@ -79,12 +253,47 @@ const MapView = ({
         <h2>Move the comparison set</h2>
         <p>
           Drag any colored country anywhere on the map. The size updates based
-          on its new latitude, just like Mercator does.
+          on its new latitude, just like the {projection.label} projection
+          does.
         </p>
         <div className="map-header-actions">
           <button className="reset-button" type="button" onClick={onResetPositions}>
             Reset positions
           </button>
+          <button
+            className="github-button"
+            type="button"
+            onClick={onExportPng}
+            disabled={loading || Boolean(error)}
+          >
+            Download PNG
+          </button>
+          <ProjectionSelect
+            value={projection.id}
+            options={MAP_PROJECTIONS}
+            onChange={onProjectionChange}
+          />
+          <KeyboardStepSelect
+            value={keyboardStep}
+            onChange={onKeyboardStepChange}
+          />
+          <TissotControls settings={tissotSettings} onChange={onTissotChange} />
+          <button
+            className={`solar-toggle ${heatmapEnabled ? 'is-on' : ''}`}
+            type="button"
+            aria-pressed={heatmapEnabled}
+            onClick={onToggleHeatmap}
+          >
+            Heatmap {heatmapEnabled ? 'on' : 'off'}
+          </button>
+          <button
+            className={`solar-toggle ${measureEnabled ? 'is-on' : ''}`}
+            type="button"
+            aria-pressed={measureEnabled}
+            onClick={onToggleMeasure}
+          >
+            Ruler {measureEnabled ? 'on' : 'off'}
+          </button>
           <a
             className="github-button"
             href="https://github.com/ObservedObserver/world-map-reality"
@@ -100,6 +309,14 @@ const MapView = ({
             Home
           </a>
         </div>
+        {exportStatus ? (
+          <div
+            className={`region-status ${exportStatus.isError ? 'is-error' : ''}`}
+            role={exportStatus.isError ? 'alert' : 'status'}
+          >
+            {exportStatus.message}
+          </div>
+        ) : null}
       </div>
 
       <div className="map-frame">
@@ -112,10 +329,16 @@ const MapView = ({
         {error && <div className="map-error">{error}</div>}
         {!loading && !error && (
           <svg
-            className="map-svg"
+            className={`map-svg ${mapPanning ? 'is-panning' : ''} ${
+              measureEnabled ? 'is-measuring' : ''
+            }`}
             viewBox={`0 0 ${mapWidth} ${mapHeight}`}
-            role="img"
-            aria-label="Mercator world map with draggable countries"
+            role="group"
+            aria-label={`${projection.label} world map with draggable countries`}
+            ref={mapSvgRef}
+            onPointerDown={onMapPointerDown}
+            onPointerDownCapture={onMeasurePointerDown}
+            onClick={onMeasureClick}
           >
             <defs>
               <filter
@@ -136,72 +359,166 @@ const MapView = ({
 
             <rect className="map-ocean" width={mapWidth} height={mapHeight} />
 
-            <g className="world-base">
-              {worldFeatures.map((feature, index) => (
-                <path
-                  key={`world-${feature.id ?? index}`}
-                  d={pathGenerator(feature) ?? ''}
+            <g
+              className="map-zoom"
+              transform={`translate(${mapTransform.x} ${mapTransform.y}) scale(${mapTransform.k})`}
+            >
+              <path
+                className="map-sphere"
+                d={pathGenerator({ type: 'Sphere' }) ?? ''}
+              />
+              {heatmapEnabled && heatmapUrl ? (
+                <image
+                  className="distortion-heatmap"
+                  href={heatmapUrl}
+                  width={mapWidth}
+                  height={mapHeight}
+                  preserveAspectRatio="none"
+                  opacity={HEATMAP_OPACITY}
                 />
-              ))}
-            </g>
+              ) : null}
+              <g className="world-base">
+                {worldFeatures.map((feature, index) => (
+                  <path
+                    key={`world-${feature.id ?? index}`}
+                    d={pathGenerator(feature) ?? ''}
+                  />
+                ))}
+              </g>
 
-            <g className="lat-lines">
-              {latLines.map((latLine) => {
-                if (!latLine.path) {
-                  return null
-                }
-                return (
+              <g className="lat-lines">
+                {latLines.map((latLine) => {
+                  if (!latLine.path) {
+                    return null
+                  }
+                  return (
+                    <path
+                      key={`lat-${latLine.lat}`}
+                      d={latLine.path}
+                      className={`lat-line ${latLine.isEquator ? 'equator' : ''}`}
+                    />
+                  )
+                })}
+              </g>
+
+              <TissotLayer
+                circles={tissotCircles}
+                pathGenerator={pathGenerator}
+                getDistortion={getTissotDistortion}
+              />
+
+              <g className="countries">
+                {renderedCountries.map((item) => (
+                  <g
+                    key={item.country.id}
+                    className={`country-group ${
+                      item.isSelected ? 'is-selected' : ''
+                    } ${item.isDragging ? 'is-dragging' : ''} ${
+                      item.isDraggable ? '' : 'is-disabled'
+                    }`}
+                    onPointerDown={(event) =>
+                      onCountryPointerDown(event, item.country)
+                    }
+                    onKeyDown={(event) => onCountryKeyDown(event, item.country)}
+                    tabIndex={item.isDraggable ? 0 : -1}
+                    role="button"
+                    aria-label={`Drag ${item.country.name}`}
+                    aria-describedby="map-keyboard-hint"
+                  >
+                    <path
+                      className="country-shape"
+                      d={pathGenerator(item.feature) ?? ''}
+                      fill={item.country.color}
+                    />
+                  </g>
+                ))}
+              </g>
+              <g className="stamp-overlays" aria-hidden="true">
+                {stampOverlays.map((item) => (
                   <path
-                    key={`lat-${latLine.lat}`}
-                    d={latLine.path}
-                    className={`lat-line ${latLine.isEquator ? 'equator' : ''}`}
+                    key={`map-stamp-${item.country.id}`}
+                    className="stamp-outline"
+                    d={pathGenerator(item.feature) ?? ''}
+                    stroke={item.country.color}
                   />
-                )
-              })}
+                ))}
+              </g>
+              <MeasureLayer
+                paths={measurePaths}
+                draft={measureDraft}
+                unit={measureUnit}
+                pathGenerator={pathGenerator}
+                areaFormatter={areaFormatter}
+              />
             </g>
 
+            {/* Labels stay pinned to the left edge and unscaled while zooming. */}
             <g className="lat-labels">
               {latLines.map((latLine) => {
                 if (latLine.labelX === null || latLine.labelY === null) {
                   return null
                 }
+                const y = latLine.labelY * mapTransform.k + mapTransform.y
+                if (y < 0 || y > mapHeight) {
+                  return null
+                }
                 return (
-                  <text
-                    key={`label-${latLine.lat}`}
-                    x={latLine.labelX}
-                    y={latLine.labelY}
-                  >
+                  <text key={`label-${latLine.lat}`} x={latLine.labelX} y={y}>
                     {latLine.label}
                   </text>
                 )
               })}
             </g>
-
-            <g className="countries">
-              {renderedCountries.map((item) => (
-                <g
-                  key={item.country.id}
-                  className={`country-group ${
-                    item.isSelected ? 'is-selected' : ''
-                  } ${item.isDragging ? 'is-dragging' : ''} ${
-                    item.isDraggable ? '' : 'is-disabled'
-                  }`}
-                  onPointerDown={(event) =>
-                    onCountryPointerDown(event, item.country)
-                  }
-                  role="button"
-                  aria-label={`Drag ${item.country.name}`}
-                >
-                  <path
-                    className="country-shape"
-                    d={pathGenerator(item.feature) ?? ''}
-                    fill={item.country.color}
-                  />
-                </g>
-              ))}
-            </g>
+            {heatmapEnabled ? (
+              <HeatmapLegend x={mapWidth - 244} y={mapHeight - 34} />
+            ) : null}
           </svg>
         )}
+        {!loading && !error && tourCaption ? (
+          <div className="tour-caption">
+            <span aria-live="polite">{tourCaption.text}</span>
+            <span className="tour-caption-meta">
+              Step {tourCaption.step} · {tourCaption.live}
+            </span>
+          </div>
+        ) : null}
+        {!loading && !error && (
+          <div className="map-zoom-controls" role="group" aria-label="Map zoom">
+            <button
+              className="planet-zoom-button"
+              type="button"
+              onClick={onZoomIn}
+              disabled={!canZoomIn}
+              aria-label="Zoom in"
+              title="Zoom in"
+            >
+              <ZoomIn size={16} />
+            </button>
+            <button
+              className="planet-zoom-button"
+              type="button"
+              onClick={onZoomOut}
+              disabled={!canZoomOut}
+              aria-label="Zoom out"
+              title="Zoom out"
+            >
+              <ZoomOut size={16} />
+            </button>
+            <button
+              className="planet-zoom-button"
+              type="button"
+              onClick={onResetZoom}
+              disabled={!canZoomOut}
+              aria-label="Reset view"
+              title="Reset view"
+            >
+              <Maximize size={16} />
+            </button>
+            <span className="planet-zoom-value">
+              {mapTransform.k.toFixed(1)}x
+            </span>
+          </div>
+        )}
       </div>
 
       <div className="map-footer">
@@ -228,9 +545,20 @@ const MapView = ({
             <div className="legend-empty">No countries selected yet.</div>
           )}
         </div>
+        <p className="map-hint">
+          {projection.label}: {projection.description}
+        </p>
         <p className="map-hint">
           Tip: Move Greenland down near DR Congo to compare the contrast.
         </p>
+        <p className="map-hint" id="map-keyboard-hint">
+          Keyboard: Tab to a country, then use the arrow keys to move it.
+          Space selects it; Enter toggles whether it is draggable.
+        </p>
+        <p className="map-hint">
+          Shift- or Ctrl-click countries to select a group, then drag any of
+          them to move the group together.
+        </p>
       </div>
     </section>
 
@@ -258,27 +586,104 @@ const MapView = ({
             </span>
           </div>
           <div className="panel-metric">
-            <span className="metric-label">Mercator scale factor</span>
+            <span className="metric-label">{projection.label} scale factor</span>
             <span className="metric-value">
               {formatScale(selectedDetails.currentScale)} of original size
             </span>
           </div>
           <div className="panel-metric">
-            <span className="metric-label">Area</span>
+            <span className="metric-label">Areal distortion here</span>
+            <span className="metric-value">
+              {formatScale(selectedDetails.arealDistortion)} of true area
+            </span>
+          </div>
+          <div className="panel-metric">
+            <span className="metric-label">Max angular distortion</span>
             <span className="metric-value">
-              {selectedCountry.area
-                ? `${areaFormatter.format(selectedCountry.area)} km²`
-                : 'Unknown'}
+              {selectedDetails.angularDistortion.toFixed(1)}°
             </span>
           </div>
+          <CountryAreaMetrics
+            country={selectedCountry}
+            comparisonCountries={draggableCountries}
+            areaFormatter={areaFormatter}
+          />
+          <div className="panel-subtitle">Place precisely</div>
+          <PlacementControls
+            key={`${selectedCountry.id}:${selectedDetails.currentLat.toFixed(
+              2
+            )}:${selectedDetails.currentLon.toFixed(2)}`}
+            countryName={selectedCountry.name}
+            currentLat={selectedDetails.currentLat}
+            currentLon={selectedDetails.currentLon}
+            onPlace={onPlaceSelected}
+            onSnapToEquator={onSnapSelectedToEquator}
+            onReset={onResetSelected}
+          />
         </div>
       ) : (
         <div className="panel-empty">
           Select a country to inspect its latitude and scale.
         </div>
       )}
+      <SelectionGroupSummary
+        countries={selectionGroup}
+        areaFormatter={areaFormatter}
+      />
+      <MeasurePanel
+        enabled={measureEnabled}
+        unit={measureUnit}
+        paths={measurePaths}
+        draft={measureDraft}
+        areaFormatter={areaFormatter}
+        onUnitChange={onMeasureUnitChange}
+        onFinish={onFinishMeasure}
+        onUndo={onUndoMeasure}
+        onRemove={onRemoveMeasure}
+        onClear={onClearMeasure}
+      />
+      <div className="panel-section">
+        <div className="panel-subtitle">Guided tour</div>
+        <TourControls
+          tours={tours}
+          activeTour={activeTour}
+          stepIndex={tourStepIndex}
+          playing={tourPlaying}
+          progress={tourProgress}
+          importStatus={tourImportStatus}
+          onSelectTour={onSelectTour}
+          onPlay={onPlayTour}
+          onPause={onPauseTour}
+          onStepBack={onStepTourBack}
+          onStepForward={onStepTourForward}
+          onRestart={onRestartTour}
+          onImportTour={onImportTour}
+        />
+      </div>
+      <div className="panel-section">
+        <div className="panel-subtitle">Overlay stamp</div>
+        <StampControls
+          countries={countries}
+          selection={stampSelection}
+          defaultSourceId={selectedCountry?.id ?? null}
+          areaFormatter={areaFormatter}
+          onChange={onStampChange}
+        />
+      </div>
       <div className="panel-section">
         <div className="panel-subtitle">Draggable set</div>
+        <RegionToggle
+          enabled={regionsEnabled}
+          loading={regionsLoading}
+          error={regionsError}
+          onToggle={onToggleRegions}
+        />
+        <ShapeImport status={shapeImportStatus} onImport={onImportShape} />
+        {detailError ? (
+          <div className="region-status is-error" role="alert">
+            {detailError}
+          </div>
+        ) : null}
         <div className="drag-search">
           <input
             type="search"
@@ -301,6 +706,12 @@ const MapView = ({
                     type="checkbox"
                     checked={isDraggable}
                     onChange={() => onToggleDraggable(country.id)}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') {
+                        event.preventDefault()
+                        onToggleDraggable(country.id)
+                      }
+                    }}
                   />
                   <span
                     className="legend-swatch"
@@ -308,6 +719,11 @@ const MapView = ({
                     aria-hidden="true"
                   />
                   <span>{country.name}</span>
+                  {country.kind !== 'country' ? (
+                    <span className="drag-item-kind">
+                      {country.kind === 'region' ? 'Region' : 'Custom'}
+                    </span>
+                  ) : null}
                 </label>
               )
             })
@@ -317,8 +733,8 @@ const MapView = ({
         </div>
       </div>
       <div className="panel-foot">
-        Dragging shifts latitude, which updates the Mercator inflation in real
-        time.
+        Dragging shifts latitude, which updates the {projection.label}{' '}
+        distortion in real time.
       </div>
       <div className="panel-section" style={{ marginTop: '1rem' }}>
         <iframe
@@ -0,0 +1,87 @@
+import type { GeoPermissibleObjects } from 'd3-geo'
+import type { DistanceUnit, LonLat, MeasurePath } from '../types'
+import {
+  formatDistance,
+  formatMeasuredArea,
+  getPathLength,
+  getPolygonArea,
+  toMeasureGeometry,
+} from '../utils/measure'
+
+type MeasureLayerProps = {
+  paths: MeasurePath[]
+  draft: LonLat[]
+  unit: DistanceUnit
+  pathGenerator: (input: GeoPermissibleObjects) => string | null
+  areaFormatter: Intl.NumberFormat
+}
+
+const toVertices = (points: LonLat[]): GeoPermissibleObjects => ({
+  type: 'MultiPoint',
+  coordinates: points.map(([lon, lat]) => [lon, lat]),
+})
+
+const MeasureLayer = ({
+  paths,
+  draft,
+  unit,
+  pathGenerator,
+  areaFormatter,
+}: MeasureLayerProps) => {
+  if (paths.length === 0 && draft.length === 0) {
+    return null
+  }
+  return (
+    <g className="measure-layer">
+      {paths.map((path) => {
+        const length = formatDistance(
+          getPathLength(path.points, path.closed),
+          unit,
+          areaFormatter
+        )
+        return (
+          <g key={`measure-${path.id}`}>
+            <path
+              className={`measure-path ${path.closed ? 'is-closed' : ''}`}
+              d={pathGenerator(toMeasureGeometry(path)) ?? ''}
+            >
+              <title>
+                {path.closed
+                  ? `${formatMeasuredArea(
+                      getPolygonArea(path.points),
+                      unit,
+                      areaFormatter
+                    )}, perimeter ${length}`
+                  : length}
+              </title>
+            </path>
+            <path
+              className="measure-vertex"
+              d={pathGenerator(toVertices(path.points)) ?? ''}
+            />
+          </g>
+        )
+      })}
+      {draft.length > 0 ? (
+        <g className="measure-draft">
+          {draft.length > 1 ? (
+            <path
+              className="measure-path"
+              d={
+                pathGenerator(
+                  toMeasureGeometry({ points: draft, closed: false })
+                ) ?? ''
+              }
+            />
+          ) : null}
+          <path
+            className="measure-vertex"
+            d={pathGenerator(toVertices(draft)) ?? ''}
+          />
+        </g>
+      ) : null}
+    </g>
+  )
+}
+
+export default MeasureLayer
@@ -0,0 +1,143 @@
+import type { DistanceUnit, LonLat, MeasurePath } from '../types'
+import {
+  DISTANCE_UNIT_LABELS,
+  formatDistance,
+  formatMeasuredArea,
+  getPathLength,
+  getPolygonArea,
+} from '../utils/measure'
+
+type MeasurePanelProps = {
+  enabled: boolean
+  unit: DistanceUnit
+  paths: MeasurePath[]
+  draft: LonLat[]
+  areaFormatter: Intl.NumberFormat
+  onUnitChange: (unit: DistanceUnit) => void
+  onFinish: (closed: boolean) => void
+  onUndo: () => void
+  onRemove: (id: number) => void
+  onClear: () => void
+}
+
+const UNITS: DistanceUnit[] = ['km', 'mi']
+
+const MeasurePanel = ({
+  enabled,
+  unit,
+  paths,
+  draft,
+  areaFormatter,
+  onUnitChange,
+  onFinish,
+  onUndo,
+  onRemove,
+  onClear,
+}: MeasurePanelProps) => {
+  if (!enabled && paths.length === 0) {
+    return null
+  }
+  return (
+    <div className="panel-section measure-panel">
+      <div className="panel-subtitle">Ruler</div>
+      <div className="globe-toggle" role="group" aria-label="Distance unit">
+        {UNITS.map((option) => (
+          <button
+            key={option}
+            className={`globe-toggle-button ${unit === option ? 'is-active' : ''}`}
+            type="button"
+            aria-pressed={unit === option}
+            onClick={() => onUnitChange(option)}
+          >
+            {DISTANCE_UNIT_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      {enabled ? (
+        <>
+          <div className="panel-metric">
+            <span className="metric-label">
+              Drawing ({draft.length} {draft.length === 1 ? 'point' : 'points'})
+            </span>
+            <span className="metric-value">
+              {formatDistance(getPathLength(draft), unit, areaFormatter)}
+            </span>
+          </div>
+          <div className="placement-actions">
+            <button
+              className="reset-button"
+              type="button"
+              onClick={() => onFinish(false)}
+              disabled={draft.length < 2}
+            >
+              Finish line
+            </button>
+            <button
+              className="github-button"
+              type="button"
+              onClick={() => onFinish(true)}
+              disabled={draft.length < 3}
+            >
+              Close shape
+            </button>
+            <button
+              className="github-button"
+              type="button"
+              onClick={onUndo}
+              disabled={draft.length === 0}
+            >
+              Undo point
+            </button>
+          </div>
+        </>
+      ) : null}
+      {paths.length > 0 ? (
+        <ul className="measure-list">
+          {paths.map((path, index) => (
+            <li key={`measure-item-${path.id}`} className="measure-item">
+              <span className="measure-item-text">
+                <span className="metric-label">
+                  {path.closed ? 'Shape' : 'Line'} {index + 1}
+                </span>
+                <span className="metric-value">
+                  {path.closed
+                    ? `${formatMeasuredArea(
+                        getPolygonArea(path.points),
+                        unit,
+                        areaFormatter
+                      )} · ${formatDistance(
+                        getPathLength(path.points, true),
+                        unit,
+                        areaFormatter
+                      )} around`
+                    : formatDistance(
+                        getPathLength(path.points),
+                        unit,
+                        areaFormatter
+                      )}
+                </span>
+              </span>
+              <button
+                className="github-button"
+                type="button"
+                onClick={() => onRemove(path.id)}
+                aria-label={`Remove ${path.closed ? 'shape' : 'line'} ${
+                  index + 1
+                }`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {paths.length > 0 ? (
+        <button className="github-button" type="button" onClick={onClear}>
+          Clear ruler
+        </button>
+      ) : null}
+    </div>
+  )
+}
+
+export default MeasurePanel
@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import type { LonLat } from '../types'
+
+type PlacementControlsProps = {
+  countryName: string
+  currentLat: number
+  currentLon: number
+  onPlace: (target: LonLat) => void
+  onSnapToEquator: () => void
+  onReset: () => void
+}
+
+const MAX_INPUT_LATITUDE = 85
+
+// Mount with a key that changes whenever the country moves so the drafts
+// restart from the live position instead of mirroring it through an effect.
+const PlacementControls = ({
+  countryName,
+  currentLat,
+  currentLon,
+  onPlace,
+  onSnapToEquator,
+  onReset,
+}: PlacementControlsProps) => {
+  const [latDraft, setLatDraft] = useState(currentLat.toFixed(2))
+  const [lonDraft, setLonDraft] = useState(currentLon.toFixed(2))
+
+  const lat = Number(latDraft)
+  const lon = Number(lonDraft)
+  const isValid =
+    latDraft.trim() !== '' &&
+    lonDraft.trim() !== '' &&
+    Number.isFinite(lat) &&
+    Number.isFinite(lon) &&
+    Math.abs(lat) <= MAX_INPUT_LATITUDE &&
+    Math.abs(lon) <= 180
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (isValid) {
+      onPlace([lon, lat])
+    }
+  }
+
+  return (
+    <form className="placement-controls" onSubmit={handleSubmit}>
+      <div className="placement-fields">
+        <label className="placement-field">
+          <span>Latitude</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={-MAX_INPUT_LATITUDE}
+            max={MAX_INPUT_LATITUDE}
+            step="0.1"
+            value={latDraft}
+            onChange={(event) => setLatDraft(event.target.value)}
+            aria-label={`Target latitude for ${countryName}`}
+          />
+        </label>
+        <label className="placement-field">
+          <span>Longitude</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={-180}
+            max={180}
+            step="0.1"
+            value={lonDraft}
+            onChange={(event) => setLonDraft(event.target.value)}
+            aria-label={`Target longitude for ${countryName}`}
+          />
+        </label>
+      </div>
+      <div className="placement-actions">
+        <button className="reset-button" type="submit" disabled={!isValid}>
+          Move here
+        </button>
+        <button className="github-button" type="button" onClick={onSnapToEquator}>
+          Snap to equator
+        </button>
+        <button className="github-button" type="button" onClick={onReset}>
+          Reset country
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default PlacementControls
@@ -0,0 +1,70 @@
+import type { PlanetLighting } from '../types'
+
+type PlanetLightingControlsProps = {
+  lighting: PlanetLighting
+  selfLuminous: boolean
+  bodyName: string
+  onChange: (lighting: PlanetLighting) => void
+}
+
+const PlanetLightingControls = ({
+  lighting,
+  selfLuminous,
+  bodyName,
+  onChange,
+}: PlanetLightingControlsProps) => {
+  const [lon, lat] = lighting.subsolar
+  return (
+    <div className="planet-lighting">
+      <button
+        className={`solar-toggle ${lighting.enabled ? 'is-on' : ''}`}
+        type="button"
+        aria-pressed={lighting.enabled}
+        onClick={() => onChange({ ...lighting, enabled: !lighting.enabled })}
+        disabled={selfLuminous}
+      >
+        Day/night {lighting.enabled && !selfLuminous ? 'on' : 'off'}
+      </button>
+      {selfLuminous ? (
+        <div className="planet-hint">{bodyName} makes its own light.</div>
+      ) : lighting.enabled ? (
+        <>
+          <label className="placement-field">
+            <span>Sun longitude {Math.round(lon)}°</span>
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              step={1}
+              value={lon}
+              onChange={(event) =>
+                onChange({
+                  ...lighting,
+                  subsolar: [Number(event.target.value), lat],
+                })
+              }
+            />
+          </label>
+          <label className="placement-field">
+            <span>Sun latitude {Math.round(lat)}°</span>
+            <input
+              type="range"
+              min={-90}
+              max={90}
+              step={1}
+              value={lat}
+              onChange={(event) =>
+                onChange({
+                  ...lighting,
+                  subsolar: [lon, Number(event.target.value)],
+                })
+              }
+            />
+          </label>
+        </>
+      ) : null}
+    </div>
+  )
+}
+
+export default PlanetLightingControls
@@ -0,0 +1,80 @@
+import { useId } from 'react'
+import { createRingHalfPath } from '../utils/planetShape'
+
+type PlanetRingProps = {
+  cx: number
+  cy: number
+  innerRadius: number
+  outerRadius: number
+  viewLatitude: number
+  half: 'back' | 'front'
+  color: string
+}
+
+// Keeps the gradient from collapsing when the rings are seen edge-on.
+const MIN_RING_SQUASH = 0.01
+
+// Brightness across the ring system, from the inner to the outer edge.
+const RING_BANDS: Array<[number, number]> = [
+  [0, 0.12],
+  [0.3, 0.45],
+  [0.55, 0.7],
+  [0.62, 0.7],
+  [0.64, 0.15],
+  [0.68, 0.55],
+  [0.95, 0.5],
+  [1, 0.2],
+]
+
+const PlanetRing = ({
+  cx,
+  cy,
+  innerRadius,
+  outerRadius,
+  viewLatitude,
+  half,
+  color,
+}: PlanetRingProps) => {
+  const gradientId = useId()
+  const squash = Math.max(
+    MIN_RING_SQUASH,
+    Math.abs(Math.sin((viewLatitude * Math.PI) / 180))
+  )
+  const innerFraction = innerRadius / outerRadius
+  return (
+    <g className={`planet-ring is-${half}`} aria-hidden="true">
+      <defs>
+        <radialGradient
+          id={gradientId}
+          gradientUnits="userSpaceOnUse"
+          cx={cx}
+          cy={cy}
+          r={outerRadius}
+          gradientTransform={`translate(0 ${cy * (1 - squash)}) scale(1 ${squash})`}
+        >
+          {RING_BANDS.map(([offset, opacity]) => (
+            <stop
+              key={offset}
+              offset={innerFraction + offset * (1 - innerFraction)}
+              stopColor={color}
+              stopOpacity={opacity}
+            />
+          ))}
+        </radialGradient>
+      </defs>
+      <path
+        d={createRingHalfPath(
+          cx,
+          cy,
+          innerRadius,
+          outerRadius,
+          viewLatitude,
+          half
+        )}
+        fill={`url(#${gradientId})`}
+      />
+    </g>
+  )
+}
+
+export default PlanetRing
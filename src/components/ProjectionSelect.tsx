@@ -0,0 +1,27 @@
+type ProjectionSelectProps<T extends string> = {
+  value: T
+  options: { id: T; label: string }[]
+  onChange: (id: T) => void
+}
+
+const ProjectionSelect = <T extends string>({
+  value,
+  options,
+  onChange,
+}: ProjectionSelectProps<T>) => (
+  <label className="keyboard-step projection-select">
+    <span>Projection</span>
+    <select
+      value={value}
+      onChange={(event) => onChange(event.target.value as T)}
+    >
+      {options.map((option) => (
+        <option key={option.id} value={option.id}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </label>
+)
+
+export default ProjectionSelect
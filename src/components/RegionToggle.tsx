@@ -0,0 +1,23 @@
+type RegionToggleProps = {
+  enabled: boolean
+  loading: boolean
+  error: string | null
+  onToggle: () => void
+}
+
+const RegionToggle = ({ enabled, loading, error, onToggle }: RegionToggleProps) => (
+  <div className="region-toggle">
+    <label className={`drag-item ${enabled ? 'is-on' : ''}`}>
+      <input type="checkbox" checked={enabled} onChange={onToggle} />
+      <span>Include states &amp; provinces</span>
+    </label>
+    {enabled && loading ? (
+      <div className="region-status">Loading regions...</div>
+    ) : null}
+    {enabled && error ? (
+      <div className="region-status is-error">{error}</div>
+    ) : null}
+  </div>
+)
+
+export default RegionToggle
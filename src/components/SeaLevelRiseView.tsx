@@ -2,6 +2,7 @@ import { useCallback, useEffect, useRef, useState } from 'react'
 import { Download } from 'lucide-react'
 import maplibregl from 'maplibre-gl'
 import 'maplibre-gl/dist/maplibre-gl.css'
+import { useConnectedFlood } from '../hooks/useConnectedFlood'
 
 const DEFAULT_SEA_LEVEL_METERS = 0
 const MIN_SEA_LEVEL_METERS = -5000
@@ -11,6 +12,9 @@ const SEA_LEVEL_LAYER_ID = 'sea-level-overlay'
 const SATELLITE_SOURCE_ID = 'satellite-source'
 const TERRAIN_SOURCE_ID = 'terrain-source'
 const SATELLITE_LAYER_ID = 'satellite-layer'
+const TERRAIN_TILE_URL =
+  'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png'
+const DEFAULT_FLOOD_MODE = 'bathtub'
 const WATERMARK_TEXT =
   'runcell.dev/tool/true-size-map/sea-level-rise-simulator'
 
@@ -21,6 +25,10 @@ const MODE_TRANSITION_MS = 650
 
 type MapViewMode = '2d' | '3d'
 
+// Bathtub paints every pixel below the level; connected only floods what an
+// unbroken path of low ground links to the ocean.
+type FloodMode = 'bathtub' | 'connected'
+
 const MAP_STYLE: maplibregl.StyleSpecification = {
   version: 8,
   sources: {
@@ -36,9 +44,7 @@ const MAP_STYLE: maplibregl.StyleSpecification = {
     },
     [TERRAIN_SOURCE_ID]: {
       type: 'raster-dem',
-      tiles: [
-        'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png',
-      ],
+      tiles: [TERRAIN_TILE_URL],
       tileSize: 256,
       encoding: 'terrarium',
       attribution: 'DEM © elevation-tiles-prod (Terrarium encoding)',
@@ -116,6 +122,7 @@ const SeaLevelRiseView = () => {
   const [seaLevel, setSeaLevel] = useState(DEFAULT_SEA_LEVEL_METERS)
   const [mapViewMode, setMapViewMode] =
     useState<MapViewMode>(DEFAULT_MAP_VIEW_MODE)
+  const [floodMode, setFloodMode] = useState<FloodMode>(DEFAULT_FLOOD_MODE)
   const [mapReady, setMapReady] = useState(false)
   const [mapError, setMapError] = useState<string | null>(null)
   const [downloadModalOpen, setDownloadModalOpen] = useState(false)
@@ -126,6 +133,13 @@ const SeaLevelRiseView = () => {
   const mapContainerRef = useRef<HTMLDivElement | null>(null)
   const mapRef = useRef<maplibregl.Map | null>(null)
   const mapViewModeRef = useRef<MapViewMode>(DEFAULT_MAP_VIEW_MODE)
+  const { computing: floodComputing, error: floodError } = useConnectedFlood(
+    mapRef,
+    mapReady,
+    floodMode === 'connected',
+    seaLevel,
+    TERRAIN_TILE_URL
+  )
 
   useEffect(() => {
     mapViewModeRef.current = mapViewMode
@@ -234,6 +248,18 @@ const SeaLevelRiseView = () => {
     )
   }, [mapReady, seaLevel])
 
+  useEffect(() => {
+    const map = mapRef.current
+    if (!mapReady || !map || !map.getLayer(SEA_LEVEL_LAYER_ID)) {
+      return
+    }
+    map.setLayoutProperty(
+      SEA_LEVEL_LAYER_ID,
+      'visibility',
+      floodMode === 'bathtub' ? 'visible' : 'none'
+    )
+  }, [mapReady, floodMode])
+
   const createExportImage = useCallback(async () => {
     const map = mapRef.current
     if (!mapReady || !map) {
@@ -399,6 +425,39 @@ const SeaLevelRiseView = () => {
               ? '3D mode enabled. Drag to rotate the globe.'
               : '2D mode enabled. Flat Mercator map view.'}
           </p>
+          <div className="sea-level-mode-switch" role="group" aria-label="Flood model">
+            <button
+              type="button"
+              className={`sea-level-mode-button ${
+                floodMode === 'bathtub' ? 'is-active' : ''
+              }`}
+              aria-pressed={floodMode === 'bathtub'}
+              onClick={() => setFloodMode('bathtub')}
+            >
+              Bathtub
+            </button>
+            <button
+              type="button"
+              className={`sea-level-mode-button ${
+                floodMode === 'connected' ? 'is-active' : ''
+              }`}
+              aria-pressed={floodMode === 'connected'}
+              onClick={() => setFloodMode('connected')}
+            >
+              Connected to ocean
+            </button>
+          </div>
+          <p
+            className={`sea-level-mode-note ${floodError ? 'is-error' : ''}`}
+            role={floodError ? 'alert' : 'status'}
+          >
+            {floodMode === 'bathtub'
+              ? 'Bathtub: every area below the level is blue, even inland basins.'
+              : floodError ??
+                (floodComputing
+                  ? 'Tracing which low ground connects to the ocean...'
+                  : 'Connected: only low ground linked to the ocean floods in this view.')}
+          </p>
           <label htmlFor="sea-level-slider">
             Sea level target: <strong>{seaLevel}m</strong>
           </label>
@@ -451,10 +510,14 @@ const SeaLevelRiseView = () => {
           <summary>About accuracy &amp; limitations</summary>
           <ul>
             <li>
-              <strong>Elevation-based only.</strong> This tool highlights all
-              areas below the selected elevation, not a true flood simulation.
-              Inland depressions (e.g. Lake Eyre, Death Valley) may appear
-              flooded even though no connected waterway exists from the ocean.
+              <strong>Elevation-based only.</strong> Bathtub mode highlights
+              all areas below the selected elevation, not a true flood
+              simulation. Inland depressions (e.g. Lake Eyre, Death Valley) may
+              appear flooded even though no connected waterway exists from the
+              ocean. Connected mode flood-fills from the ocean instead, on a
+              coarse world grid and then the tiles in view, so a basin just
+              outside the view or a channel narrower than a DEM pixel can
+              still be misjudged.
             </li>
             <li>
               <strong>DEM resolution.</strong> The elevation data has limited
@@ -0,0 +1,48 @@
+import type { CountryDatum } from '../types'
+
+type SelectionGroupSummaryProps = {
+  countries: CountryDatum[]
+  areaFormatter: Intl.NumberFormat
+}
+
+const SelectionGroupSummary = ({
+  countries,
+  areaFormatter,
+}: SelectionGroupSummaryProps) => {
+  if (countries.length < 2) {
+    return null
+  }
+  const combinedArea = countries.reduce(
+    (sum, country) => sum + (country.area ?? 0),
+    0
+  )
+  const isApproximate = countries.some(
+    (country) => country.areaSource === 'computed'
+  )
+  return (
+    <div className="panel-section selection-group">
+      <div className="panel-subtitle">Group of {countries.length}</div>
+      <div className="selection-group-swatches">
+        {countries.map((country) => (
+          <span key={`group-${country.id}`} className="selection-group-item">
+            <span
+              className="legend-swatch"
+              style={{ backgroundColor: country.color }}
+              aria-hidden="true"
+            />
+            {country.name}
+          </span>
+        ))}
+      </div>
+      <div className="panel-metric">
+        <span className="metric-label">Combined area</span>
+        <span className="metric-value">
+          {isApproximate ? '≈ ' : ''}
+          {areaFormatter.format(combinedArea)} km²
+        </span>
+      </div>
+    </div>
+  )
+}
+
+export default SelectionGroupSummary
@@ -1,12 +1,9 @@
-import seoMeta from '../seo-meta.json'
 import {
   MAIN_FAQS,
   POPULAR_COMPARISON_LINKS,
   formatSeoArea,
 } from '../seo'
-
-type ComparisonMeta =
-  (typeof seoMeta.comparisons)[keyof typeof seoMeta.comparisons]
+import type { ComparisonMeta } from '../seo'
 
 type SeoContentProps = {
   comparison: ComparisonMeta | null
@@ -14,35 +11,57 @@ type SeoContentProps = {
 
 const SeoContent = ({ comparison }: SeoContentProps) => {
   if (comparison) {
-    const ratio = comparison.secondaryAreaKm2 / comparison.primaryAreaKm2
+    const members = comparison.members ?? [
+      { name: comparison.primaryName, areaKm2: comparison.primaryAreaKm2 },
+      { name: comparison.secondaryName, areaKm2: comparison.secondaryAreaKm2 },
+    ]
+    const [largest, ...rest] = [...members].sort(
+      (a, b) => b.areaKm2 - a.areaKm2
+    )
+    const smallest = rest[rest.length - 1]
+    const ratio = (largest.areaKm2 / smallest.areaKm2).toFixed(1)
     const ratioText =
-      ratio >= 1
-        ? `${comparison.secondaryName} is about ${ratio.toFixed(1)} times larger than ${comparison.primaryName}.`
-        : `${comparison.primaryName} is about ${(1 / ratio).toFixed(1)} times larger than ${comparison.secondaryName}.`
+      members.length > 2
+        ? `${largest.name} is the largest, about ${ratio} times the area of ${smallest.name}, the smallest of the ${members.length}.`
+        : `${largest.name} is about ${ratio} times larger than ${smallest.name}.`
+    const memberNames = members.map((member) => member.name)
+    const comparedNames = `${memberNames.slice(0, -1).join(', ')} and ${
+      memberNames[memberNames.length - 1]
+    }`
 
     return (
       <section className="seo-content" aria-labelledby="comparison-seo-title">
         <div className="seo-section-header">
           <p className="seo-kicker">True Size Comparison</p>
           <h2 id="comparison-seo-title">
-            Compare {comparison.primaryName} and {comparison.secondaryName} at
-            true scale
+            Compare {comparedNames} at true scale
           </h2>
           <p>{comparison.intro}</p>
         </div>
 
         <div className="seo-stat-grid">
-          <article className="seo-stat">
-            <span className="seo-stat-label">{comparison.primaryName}</span>
-            <strong>{formatSeoArea(comparison.primaryAreaKm2)} km2</strong>
-          </article>
-          <article className="seo-stat">
-            <span className="seo-stat-label">
-              {comparison.secondaryName}
-              {comparison.secondaryType === 'continent' ? ' continent' : ''}
-            </span>
-            <strong>{formatSeoArea(comparison.secondaryAreaKm2)} km2</strong>
-          </article>
+          {comparison.members ? (
+            comparison.members.map((member) => (
+              <article className="seo-stat" key={member.name}>
+                <span className="seo-stat-label">{member.name}</span>
+                <strong>{formatSeoArea(member.areaKm2)} km2</strong>
+              </article>
+            ))
+          ) : (
+            <>
+              <article className="seo-stat">
+                <span className="seo-stat-label">{comparison.primaryName}</span>
+                <strong>{formatSeoArea(comparison.primaryAreaKm2)} km2</strong>
+              </article>
+              <article className="seo-stat">
+                <span className="seo-stat-label">
+                  {comparison.secondaryName}
+                  {comparison.secondaryType === 'continent' ? ' continent' : ''}
+                </span>
+                <strong>{formatSeoArea(comparison.secondaryAreaKm2)} km2</strong>
+              </article>
+            </>
+          )}
           <article className="seo-stat seo-stat-wide">
             <span className="seo-stat-label">Key takeaway</span>
             <strong>{ratioText}</strong>
@@ -0,0 +1,65 @@
+import { useState } from 'react'
+import type { ChangeEvent, DragEvent } from 'react'
+import { Upload } from 'lucide-react'
+import type { StatusMessage } from '../types'
+import { SHAPE_IMPORT_ACCEPT } from '../utils/shapeImport'
+
+type ShapeImportProps = {
+  status: StatusMessage | null
+  onImport: (file: File) => void
+}
+
+const ShapeImport = ({ status, onImport }: ShapeImportProps) => {
+  const [isOver, setIsOver] = useState(false)
+
+  const handleDrop = (event: DragEvent<HTMLLabelElement>) => {
+    event.preventDefault()
+    setIsOver(false)
+    const file = event.dataTransfer.files[0]
+    if (file) {
+      onImport(file)
+    }
+  }
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      onImport(file)
+    }
+    // Allow re-importing the same file after fixing it.
+    event.target.value = ''
+  }
+
+  return (
+    <div className="shape-import">
+      <label
+        className={`shape-import-drop ${isOver ? 'is-over' : ''}`}
+        onDragOver={(event) => {
+          event.preventDefault()
+          setIsOver(true)
+        }}
+        onDragLeave={() => setIsOver(false)}
+        onDrop={handleDrop}
+      >
+        <Upload size={16} aria-hidden="true" />
+        <span>Drop or choose a GeoJSON, TopoJSON or KML file</span>
+        <input
+          type="file"
+          accept={SHAPE_IMPORT_ACCEPT}
+          onChange={handleChange}
+          className="sr-only"
+        />
+      </label>
+      {status ? (
+        <div
+          className={`region-status ${status.isError ? 'is-error' : ''}`}
+          role={status.isError ? 'alert' : 'status'}
+        >
+          {status.message}
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+export default ShapeImport
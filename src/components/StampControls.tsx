@@ -0,0 +1,133 @@
+import { useMemo, useState } from 'react'
+import { ArrowLeftRight } from 'lucide-react'
+import type { CountryDatum, StampSelection } from '../types'
+import { formatAreaRatio } from '../utils/formatters'
+
+type StampControlsProps = {
+  countries: CountryDatum[]
+  selection: StampSelection | null
+  defaultSourceId: string | null
+  areaFormatter: Intl.NumberFormat
+  onChange: (selection: StampSelection | null) => void
+}
+
+const StampControls = ({
+  countries,
+  selection,
+  defaultSourceId,
+  areaFormatter,
+  onChange,
+}: StampControlsProps) => {
+  const [draftSourceId, setDraftSourceId] = useState<string | null>(null)
+  const options = useMemo(
+    () => [...countries].sort((a, b) => a.name.localeCompare(b.name)),
+    [countries]
+  )
+  const source = selection
+    ? countries.find((country) => country.id === selection.sourceId) ?? null
+    : null
+  const target = selection
+    ? countries.find((country) => country.id === selection.targetId) ?? null
+    : null
+  const sourceValue =
+    selection?.sourceId ?? draftSourceId ?? defaultSourceId ?? ''
+  const ratio =
+    source?.area && target?.area ? source.area / target.area : null
+  const ratioLabel = ratio === null ? null : formatAreaRatio(ratio)
+
+  const update = (sourceId: string, targetId: string) => {
+    onChange(
+      sourceId && targetId && sourceId !== targetId
+        ? { sourceId, targetId }
+        : null
+    )
+  }
+
+  return (
+    <div className="stamp-controls">
+      <div className="stamp-fields">
+        <label className="placement-field">
+          <span>Country</span>
+          <select
+            value={sourceValue}
+            onChange={(event) => {
+              setDraftSourceId(event.target.value)
+              update(event.target.value, selection?.targetId ?? '')
+            }}
+          >
+            <option value="">Choose…</option>
+            {options.map((country) => (
+              <option key={`stamp-source-${country.id}`} value={country.id}>
+                {country.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          className="stamp-swap"
+          type="button"
+          onClick={() =>
+            selection ? update(selection.targetId, selection.sourceId) : null
+          }
+          disabled={!selection}
+          aria-label="Swap countries"
+          title="Swap countries"
+        >
+          <ArrowLeftRight size={16} />
+        </button>
+        <label className="placement-field">
+          <span>Stamped onto</span>
+          <select
+            value={selection?.targetId ?? ''}
+            onChange={(event) => update(sourceValue, event.target.value)}
+          >
+            <option value="">Choose…</option>
+            {options.map((country) => (
+              <option
+                key={`stamp-target-${country.id}`}
+                value={country.id}
+                disabled={country.id === sourceValue}
+              >
+                {country.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {source && target ? (
+        <>
+          <div className="panel-metric">
+            <span className="metric-label">{source.name}</span>
+            <span className="metric-value">
+              {ratioLabel
+                ? `${ratioLabel} ${ratioLabel === 'same size' ? 'as' : 'than'} ${
+                    target.name
+                  }`
+                : 'Area unknown'}
+            </span>
+          </div>
+          {source.area && target.area ? (
+            <div className="stamp-areas">
+              {areaFormatter.format(source.area)} km² vs{' '}
+              {areaFormatter.format(target.area)} km²
+            </div>
+          ) : null}
+          <button
+            className="github-button"
+            type="button"
+            onClick={() => onChange(null)}
+          >
+            Clear overlay
+          </button>
+        </>
+      ) : (
+        <div className="stamp-areas">
+          Pick two countries to overlay each outline at the other&apos;s
+          location, at true size.
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default StampControls
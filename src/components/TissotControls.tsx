@@ -0,0 +1,39 @@
+import type { TissotSettings } from '../types'
+import { TISSOT_SPACING_OPTIONS } from '../constants'
+
+type TissotControlsProps = {
+  settings: TissotSettings
+  onChange: (settings: TissotSettings) => void
+}
+
+const TissotControls = ({ settings, onChange }: TissotControlsProps) => (
+  <div className="tissot-controls">
+    <button
+      className={`solar-toggle ${settings.enabled ? 'is-on' : ''}`}
+      type="button"
+      aria-pressed={settings.enabled}
+      onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+    >
+      Tissot circles {settings.enabled ? 'on' : 'off'}
+    </button>
+    {settings.enabled ? (
+      <label className="keyboard-step">
+        <span>Grid</span>
+        <select
+          value={settings.spacing}
+          onChange={(event) =>
+            onChange({ ...settings, spacing: Number(event.target.value) })
+          }
+        >
+          {TISSOT_SPACING_OPTIONS.map((spacing) => (
+            <option key={spacing} value={spacing}>
+              every {spacing}°
+            </option>
+          ))}
+        </select>
+      </label>
+    ) : null}
+  </div>
+)
+
+export default TissotControls
@@ -0,0 +1,54 @@
+import { useMemo } from 'react'
+import type { GeoPermissibleObjects } from 'd3-geo'
+import type { LonLat, TissotCircle } from '../types'
+import type { ProjectionDistortion } from '../utils/projections'
+import { formatLatitude, formatLongitude } from '../utils/formatters'
+
+type TissotLayerProps = {
+  circles: TissotCircle[]
+  pathGenerator: (input: GeoPermissibleObjects) => string | null
+  getDistortion: (center: LonLat) => ProjectionDistortion | null
+}
+
+const TissotLayer = ({
+  circles,
+  pathGenerator,
+  getDistortion,
+}: TissotLayerProps) => {
+  const items = useMemo(
+    () =>
+      circles.flatMap((circle) => {
+        // Circles on the far side of the globe have no path.
+        const path = pathGenerator(circle.geometry)
+        const distortion = getDistortion(circle.center)
+        if (!path || !distortion) {
+          return []
+        }
+        const [lon, lat] = circle.center
+        return [
+          {
+            id: circle.id,
+            path,
+            label: `${formatLatitude(lat)}, ${formatLongitude(
+              lon
+            )}: area x${distortion.areal.toFixed(
+              2
+            )}, max angular deformation ${distortion.angular.toFixed(1)}°`,
+          },
+        ]
+      }),
+    [circles, pathGenerator, getDistortion]
+  )
+
+  return (
+    <g className="tissot-layer">
+      {items.map((item) => (
+        <path key={`tissot-${item.id}`} className="tissot-circle" d={item.path}>
+          <title>{item.label}</title>
+        </path>
+      ))}
+    </g>
+  )
+}
+
+export default TissotLayer
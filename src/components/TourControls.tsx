@@ -0,0 +1,146 @@
+import type { ChangeEvent } from 'react'
+import { Pause, Play, RotateCcw, SkipBack, SkipForward, Upload } from 'lucide-react'
+import type { StatusMessage, Tour } from '../types'
+
+type TourControlsProps = {
+  tours: Tour[]
+  activeTour: Tour | null
+  stepIndex: number
+  playing: boolean
+  progress: number
+  importStatus: StatusMessage | null
+  onSelectTour: (id: string | null) => void
+  onPlay: () => void
+  onPause: () => void
+  onStepBack: () => void
+  onStepForward: () => void
+  onRestart: () => void
+  onImportTour: (file: File) => void
+}
+
+const TourControls = ({
+  tours,
+  activeTour,
+  stepIndex,
+  playing,
+  progress,
+  importStatus,
+  onSelectTour,
+  onPlay,
+  onPause,
+  onStepBack,
+  onStepForward,
+  onRestart,
+  onImportTour,
+}: TourControlsProps) => {
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      onImportTour(file)
+    }
+    event.target.value = ''
+  }
+
+  const stepCount = activeTour?.steps.length ?? 0
+  const isLastStep = stepIndex >= stepCount - 1
+  const isFinished = isLastStep && progress >= 1
+
+  return (
+    <div className="tour-controls">
+      <label className="placement-field">
+        <span>Tour</span>
+        <select
+          value={activeTour?.id ?? ''}
+          onChange={(event) => onSelectTour(event.target.value || null)}
+        >
+          <option value="">No tour</option>
+          {tours.map((tour) => (
+            <option key={tour.id} value={tour.id}>
+              {tour.title}
+            </option>
+          ))}
+        </select>
+      </label>
+      {activeTour ? (
+        <>
+          <div className="tour-buttons" role="group" aria-label="Tour playback">
+            <button
+              className="planet-zoom-button"
+              type="button"
+              onClick={onStepBack}
+              disabled={stepIndex === 0 && progress === 0}
+              aria-label="Previous step"
+              title="Previous step"
+            >
+              <SkipBack size={16} />
+            </button>
+            <button
+              className="planet-zoom-button"
+              type="button"
+              onClick={playing ? onPause : onPlay}
+              aria-label={playing ? 'Pause tour' : 'Play tour'}
+              title={playing ? 'Pause' : isFinished ? 'Play again' : 'Play'}
+            >
+              {playing ? <Pause size={16} /> : <Play size={16} />}
+            </button>
+            <button
+              className="planet-zoom-button"
+              type="button"
+              onClick={onStepForward}
+              disabled={isFinished}
+              aria-label="Next step"
+              title="Next step"
+            >
+              <SkipForward size={16} />
+            </button>
+            <button
+              className="planet-zoom-button"
+              type="button"
+              onClick={onRestart}
+              aria-label="Restart tour"
+              title="Restart tour"
+            >
+              <RotateCcw size={16} />
+            </button>
+            <span className="tour-step-count">
+              Step {Math.min(stepIndex + 1, stepCount)} / {stepCount}
+            </span>
+          </div>
+          <div
+            className="tour-progress"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={stepCount}
+            aria-valuenow={stepIndex + progress}
+          >
+            <span
+              style={{
+                width: `${((stepIndex + progress) / Math.max(stepCount, 1)) * 100}%`,
+              }}
+            />
+          </div>
+        </>
+      ) : null}
+      <label className="shape-import-drop tour-import">
+        <Upload size={16} aria-hidden="true" />
+        <span>Load a tour from JSON</span>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          className="sr-only"
+        />
+      </label>
+      {importStatus ? (
+        <div
+          className={`region-status ${importStatus.isError ? 'is-error' : ''}`}
+          role={importStatus.isError ? 'alert' : 'status'}
+        >
+          {importStatus.message}
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+export default TourControls
@@ -2,17 +2,35 @@ import type { Vec3 } from './types'
 
 export const WORLD_TOPO_URL = `${import.meta.env.BASE_URL}data/countries-110m.json`
 export const WORLD_NAMES_URL = `${import.meta.env.BASE_URL}data/countries-110m.tsv`
+export const WORLD_TOPO_DETAIL_URLS = {
+  '50m': `${import.meta.env.BASE_URL}data/countries-50m.json`,
+  '10m': `${import.meta.env.BASE_URL}data/countries-10m.json`,
+}
+export const ADMIN1_URL = `${import.meta.env.BASE_URL}data/admin1-50m.json`
 export const SOLAR_BASE_URL = `${import.meta.env.BASE_URL}solar/`
 
 export const MAP_WIDTH = 1100
 export const MAP_HEIGHT = 650
 export const MAP_PADDING = 40
 
+export const MAP_ZOOM_MIN = 1
+export const MAP_ZOOM_MAX = 12
+export const MAP_ZOOM_STEP = 1.5
+export const MAP_DETAIL_ZOOM = {
+  '50m': 2.5,
+  '10m': 6,
+}
+
 export const GLOBE_SIZE = 680
 export const GLOBE_PADDING = 28
 export const GLOBE_DEFAULT_ROTATION: Vec3 = [-20, -10, 0]
 export const GLOBE_DRAG_SENSITIVITY = 0.25
 export const MAX_GLOBE_TILT = 80
+// The globe's bearing handle sits this many equal-area radii out from the
+// centroid, clamped to a reach in degrees of arc.
+export const BEARING_HANDLE_REACH = 1.3
+export const BEARING_HANDLE_MIN_ARC = 5
+export const BEARING_HANDLE_MAX_ARC = 30
 
 export const PLANET_PREVIEW_SIZE = 260
 export const PLANET_PADDING = 16
@@ -21,5 +39,19 @@ export const PLANET_DEFAULT_ROTATION: Vec3 = [-28, -12, 0]
 export const PLANET_ZOOM_MIN = 0.6
 export const PLANET_ZOOM_MAX = 2.4
 export const PLANET_ZOOM_STEP = 0.18
+// Stacked night-side caps (degrees from the anti-solar point); overlapping
+// translucent fills fade the terminator instead of drawing a hard edge.
+export const PLANET_TWILIGHT_RADII = [93, 90, 87]
+
+export const KEYBOARD_STEP_OPTIONS = [0.5, 1, 5, 10]
+export const KEYBOARD_STEP_DEFAULT = 1
+
+export const TISSOT_SPACING_OPTIONS = [15, 30, 45]
+export const TISSOT_SPACING_DEFAULT = 30
+// Circle radius as a share of the grid spacing, so neighbours never touch.
+export const TISSOT_RADIUS_RATIO = 0.18
+
+export const SMALL_COUNTRY_AREA_KM2 = 30000
 
 export const MAX_LATITUDE = 89.9
+export const EARTH_RADIUS_KM = 6371.0088
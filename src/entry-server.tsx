@@ -5,6 +5,8 @@ import type { HelmetServerState } from 'react-helmet-async'
 import App from './App'
 import './index.css'
 
+export { resolveComparisonMeta } from './utils/comparison'
+
 type HelmetContext = {
   helmet?: HelmetServerState
 }
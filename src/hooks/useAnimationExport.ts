@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type {
+  AnimationExportSettings,
+  AnimationLayout,
+  StatusMessage,
+  Vec3,
+} from '../types'
+import { getKeyframeRotation, getWebmMimeType } from '../utils/equatorAnimation'
+import { createGifEncoder } from '../utils/gifEncoder'
+import type { GifEncoder } from '../utils/gifEncoder'
+import { downloadBlob } from '../utils/svgExport'
+
+type RenderFrame = (
+  rotation: Vec3,
+  layout: AnimationLayout,
+  scale: number
+) => Promise<HTMLCanvasElement | null>
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => {
+    setTimeout(resolve, ms)
+  })
+
+// Renders a keyframed sweep one frame at a time through `renderFrame` and
+// saves it as a GIF, or as WebM through MediaRecorder. Rendering a frame takes
+// longer than showing it, so the recorder is paused while each frame is drawn
+// and resumed for exactly one frame interval; the video keeps the chosen fps.
+export const useAnimationExport = (renderFrame: RenderFrame, filename: string) => {
+  const [progress, setProgress] = useState<number | null>(null)
+  const [status, setStatus] = useState<StatusMessage | null>(null)
+  const cancelled = useRef(false)
+
+  // Leaving the page mid-export stops the frame loop at the next frame.
+  useEffect(() => {
+    return () => {
+      cancelled.current = true
+    }
+  }, [])
+
+  const recordGif = useCallback(
+    async (settings: AnimationExportSettings, rotations: Vec3[]) => {
+      let encoder: GifEncoder | null = null
+      for (let i = 0; i < rotations.length; i += 1) {
+        if (cancelled.current) {
+          return null
+        }
+        const frame = await renderFrame(rotations[i], settings.layout, settings.scale)
+        const ctx = frame?.getContext('2d')
+        if (!frame || !ctx) {
+          throw new Error('Could not draw an animation frame.')
+        }
+        encoder ??= createGifEncoder(
+          frame.width,
+          frame.height,
+          Math.round(100 / settings.fps)
+        )
+        encoder.addFrame(ctx.getImageData(0, 0, frame.width, frame.height).data)
+        setProgress((i + 1) / rotations.length)
+      }
+      return encoder?.finish() ?? null
+    },
+    [renderFrame]
+  )
+
+  const recordWebm = useCallback(
+    async (settings: AnimationExportSettings, rotations: Vec3[]) => {
+      const mimeType = getWebmMimeType()
+      if (!mimeType) {
+        throw new Error('This browser cannot record WebM video. Try GIF.')
+      }
+      const canvas = document.createElement('canvas')
+      const ctx = canvas.getContext('2d')
+      if (!ctx) {
+        throw new Error('Could not draw an animation frame.')
+      }
+      const chunks: Blob[] = []
+      let recorder: MediaRecorder | null = null
+      let track: CanvasCaptureMediaStreamTrack | null = null
+      for (let i = 0; i < rotations.length; i += 1) {
+        if (cancelled.current) {
+          recorder?.stop()
+          return null
+        }
+        const frame = await renderFrame(rotations[i], settings.layout, settings.scale)
+        if (!frame) {
+          recorder?.stop()
+          throw new Error('Could not draw an animation frame.')
+        }
+        if (!recorder) {
+          canvas.width = frame.width
+          canvas.height = frame.height
+          const stream = canvas.captureStream(0)
+          track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+          recorder = new MediaRecorder(stream, { mimeType })
+          recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) {
+              chunks.push(event.data)
+            }
+          }
+          recorder.start()
+          recorder.pause()
+        }
+        ctx.drawImage(frame, 0, 0)
+        recorder.resume()
+        track?.requestFrame()
+        await wait(1000 / settings.fps)
+        recorder.pause()
+        setProgress((i + 1) / rotations.length)
+      }
+      if (!recorder) {
+        return null
+      }
+      const activeRecorder = recorder
+      await new Promise<void>((resolve) => {
+        activeRecorder.onstop = () => resolve()
+        activeRecorder.stop()
+      })
+      return new Blob(chunks, { type: 'video/webm' })
+    },
+    [renderFrame]
+  )
+
+  const exportAnimation = useCallback(
+    async (settings: AnimationExportSettings) => {
+      cancelled.current = false
+      setStatus(null)
+      setProgress(0)
+      const frameCount = Math.max(2, Math.round(settings.duration * settings.fps))
+      const rotations = Array.from({ length: frameCount }, (_, index) =>
+        getKeyframeRotation(
+          settings.keyframes,
+          settings.loop ? index / frameCount : index / (frameCount - 1),
+          !settings.loop
+        )
+      )
+      try {
+        const blob =
+          settings.format === 'gif'
+            ? await recordGif(settings, rotations)
+            : await recordWebm(settings, rotations)
+        if (blob) {
+          downloadBlob(blob, `${filename}.${settings.format}`)
+          setStatus({
+            message: `Saved ${frameCount} frames as ${settings.format.toUpperCase()}.`,
+            isError: false,
+          })
+        } else if (cancelled.current) {
+          setStatus({ message: 'Export cancelled.', isError: false })
+        }
+      } catch (error) {
+        setStatus({
+          message:
+            error instanceof Error ? error.message : 'Could not export the animation.',
+          isError: true,
+        })
+      } finally {
+        setProgress(null)
+      }
+    },
+    [recordGif, recordWebm, filename]
+  )
+
+  const cancel = useCallback(() => {
+    cancelled.current = true
+  }, [])
+
+  return { progress, status, exportAnimation, cancel }
+}
@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { RefObject } from 'react'
+import type maplibregl from 'maplibre-gl'
+import {
+  createConnectedFlood,
+  createTerrariumTileLoader,
+} from '../utils/floodFill'
+
+const FLOOD_SOURCE_ID = 'connected-flood-source'
+const FLOOD_LAYER_ID = 'connected-flood-layer'
+const TILE_CACHE_SIZE = 96
+// Lets the slider settle before the mosaic is refilled.
+const UPDATE_DELAY_MS = 150
+
+const removeFloodLayer = (map: maplibregl.Map) => {
+  if (map.getLayer(FLOOD_LAYER_ID)) {
+    map.removeLayer(FLOOD_LAYER_ID)
+  }
+  if (map.getSource(FLOOD_SOURCE_ID)) {
+    map.removeSource(FLOOD_SOURCE_ID)
+  }
+}
+
+// Keeps an image overlay of the ocean-connected flood in sync with the map
+// view and the sea level while `enabled`; removes it otherwise.
+export const useConnectedFlood = (
+  mapRef: RefObject<maplibregl.Map | null>,
+  mapReady: boolean,
+  enabled: boolean,
+  seaLevel: number,
+  tileUrl: string
+) => {
+  const [computing, setComputing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const computeFlood = useMemo(
+    () =>
+      createConnectedFlood(createTerrariumTileLoader(tileUrl, TILE_CACHE_SIZE)),
+    [tileUrl]
+  )
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!mapReady || !map) {
+      return
+    }
+    if (!enabled) {
+      removeFloodLayer(map)
+      setComputing(false)
+      setError(null)
+      return
+    }
+
+    let cancelled = false
+    let requestId = 0
+    let timer: number | undefined
+
+    const update = async () => {
+      requestId += 1
+      const currentRequest = requestId
+      setComputing(true)
+      try {
+        const bounds = map.getBounds()
+        const overlay = await computeFlood(
+          {
+            west: bounds.getWest(),
+            south: bounds.getSouth(),
+            east: bounds.getEast(),
+            north: bounds.getNorth(),
+          },
+          map.getZoom(),
+          seaLevel
+        )
+        if (cancelled || currentRequest !== requestId) {
+          return
+        }
+        if (!overlay) {
+          setError('Could not draw the connected flood.')
+          return
+        }
+        const source = map.getSource(FLOOD_SOURCE_ID) as
+          | maplibregl.ImageSource
+          | undefined
+        if (source) {
+          source.updateImage(overlay)
+        } else {
+          map.addSource(FLOOD_SOURCE_ID, { type: 'image', ...overlay })
+          map.addLayer({
+            id: FLOOD_LAYER_ID,
+            type: 'raster',
+            source: FLOOD_SOURCE_ID,
+            paint: { 'raster-fade-duration': 0 },
+          })
+        }
+        setError(null)
+      } catch {
+        if (!cancelled && currentRequest === requestId) {
+          // A stale overlay would show the wrong level or place as flooded.
+          removeFloodLayer(map)
+          setError('Elevation tiles could not be loaded for the flood fill.')
+        }
+      } finally {
+        if (!cancelled && currentRequest === requestId) {
+          setComputing(false)
+        }
+      }
+    }
+
+    const scheduleUpdate = () => {
+      window.clearTimeout(timer)
+      timer = window.setTimeout(() => {
+        void update()
+      }, UPDATE_DELAY_MS)
+    }
+
+    scheduleUpdate()
+    map.on('moveend', scheduleUpdate)
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+      map.off('moveend', scheduleUpdate)
+    }
+  }, [mapRef, mapReady, enabled, seaLevel, computeFlood])
+
+  return { computing, error }
+}
@@ -1,13 +1,31 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import type { Dispatch, SetStateAction } from 'react'
 import type { FeatureCollection, GeoJsonProperties, Geometry } from 'geojson'
 import type { GeometryCollection, Topology } from 'topojson-specification'
 import type { GeoProjection } from 'd3-geo'
 import * as d3 from 'd3'
 import * as topojson from 'topojson-client'
-import type { CountryDatum, CountryFeature, LonLat } from '../types'
-import { WORLD_NAMES_URL, WORLD_TOPO_URL } from '../constants'
-import { COUNTRY_META, COUNTRY_ORDER, getCountryColor, normalizeId } from '../utils/country'
+import type {
+  CountryDatum,
+  CountryFeature,
+  DetailLevel,
+  SharedCountryState,
+  SharedMapState,
+} from '../types'
+import {
+  MAP_DETAIL_ZOOM,
+  WORLD_NAMES_URL,
+  WORLD_TOPO_DETAIL_URLS,
+  WORLD_TOPO_URL,
+} from '../constants'
+import {
+  COUNTRY_META,
+  COUNTRY_ORDER,
+  createCountryDatum,
+  getComputedArea,
+  normalizeId,
+} from '../utils/country'
+import { getSharedIdKind } from '../utils/shareState'
 
 type CountriesTopology = Topology<{ countries: GeometryCollection }>
 
@@ -23,43 +41,210 @@ type UseCountryDataResult = {
   loading: boolean
   error: string | null
   initialSelection: InitialSelection
+  lateSharedSelection: InitialSelection | null
+  requestDetail: (level: FineDetailLevel, ids?: string[]) => void
+  detailError: string | null
 }
 
-const loadCountryNames = async (signal: AbortSignal) => {
+type FineDetailLevel = Exclude<DetailLevel, '110m'>
+
+// Zooming in is the other trigger for finer outlines: 50m everywhere (which
+// also adds microstates), then 10m for the comparison set.
+export const getZoomDetailLevel = (zoom: number): FineDetailLevel | null =>
+  zoom >= MAP_DETAIL_ZOOM['10m']
+    ? '10m'
+    : zoom >= MAP_DETAIL_ZOOM['50m']
+      ? '50m'
+      : null
+
+const DETAIL_RANK: Record<DetailLevel, number> = {
+  '110m': 0,
+  '50m': 1,
+  '10m': 2,
+}
+
+type CountryAttributes = {
+  nameLookup: Map<string, string>
+  areaLookup: Map<string, number>
+}
+
+const loadCountryAttributes = async (
+  signal: AbortSignal
+): Promise<CountryAttributes> => {
   const nameLookup = new Map<string, string>()
+  const areaLookup = new Map<string, number>()
   try {
     const response = await fetch(WORLD_NAMES_URL, { signal })
     if (!response.ok) {
-      return nameLookup
+      return { nameLookup, areaLookup }
     }
     const namesText = await response.text()
     const rows = d3.tsvParse(namesText)
     rows.forEach((row) => {
       const id = row.iso_n3 ?? row.un_a3 ?? row.iso_a3
       const name = row.name ?? row.name_long
+      const area = row.area_km2 ? Number(row.area_km2) : NaN
       if (id && name) {
         const rawId = String(id)
         nameLookup.set(rawId, String(name))
         nameLookup.set(normalizeId(rawId), String(name))
       }
+      if (id && Number.isFinite(area) && area > 0) {
+        areaLookup.set(normalizeId(String(id)), area)
+      }
     })
   } catch (err) {
     if (err instanceof Error && err.name === 'AbortError') {
       throw err
     }
   }
-  return nameLookup
+  return { nameLookup, areaLookup }
+}
+
+const toCountryDatum = (
+  feature: CountryFeature,
+  { nameLookup, areaLookup }: CountryAttributes,
+  projection: GeoProjection,
+  detail: DetailLevel
+) => {
+  const rawId = feature.id as string | number
+  const id = normalizeId(rawId)
+  const meta = COUNTRY_META[Number(rawId)]
+  return createCountryDatum(
+    feature,
+    {
+      id,
+      name:
+        meta?.name ??
+        nameLookup.get(id) ??
+        feature.properties?.name ??
+        `Country ${id}`,
+      reportedArea: meta?.area ?? areaLookup.get(id) ?? null,
+      detail,
+    },
+    projection
+  )
+}
+
+const loadTopologyFeatures = async (url: string, signal?: AbortSignal) => {
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    throw new Error('Unable to load map data.')
+  }
+  const topoData = (await response.json()) as CountriesTopology
+  const countriesObject = topoData.objects?.countries
+  if (!countriesObject) {
+    throw new Error('Unexpected map data format.')
+  }
+  const collection = topojson.feature(
+    topoData,
+    countriesObject
+  ) as FeatureCollection<Geometry, GeoJsonProperties>
+  return collection.features as CountryFeature[]
+}
+
+// The detail files ship pre-simplified (scripts/build-detail-outlines.mjs),
+// so they are used as loaded.
+const loadDetailFeatures = async (level: FineDetailLevel) => {
+  const features = await loadTopologyFeatures(WORLD_TOPO_DETAIL_URLS[level])
+  return features.filter(
+    (feature) => feature.id !== undefined && feature.id !== null
+  )
+}
+
+type LateShared = {
+  entries: Map<string, SharedCountryState>
+  selectedId: string | null
+  detailRequested: boolean
+}
+
+const applySharedPositions = (
+  countries: CountryDatum[],
+  entries: SharedCountryState[],
+  projection: GeoProjection
+) => {
+  if (entries.length === 0) {
+    return countries
+  }
+  const sharedById = new Map(entries.map((entry) => [entry.id, entry]))
+  return countries.map((country) => {
+    const shared = sharedById.get(country.id)
+    if (!shared) {
+      return country
+    }
+    const projected = shared.mapPosition ? projection(shared.mapPosition) : null
+    return {
+      ...country,
+      offset: projected
+        ? {
+            x: projected[0] - country.centroidScreen[0],
+            y: projected[1] - country.centroidScreen[1],
+          }
+        : country.offset,
+      globeCentroid: shared.globePosition ?? country.globeCentroid,
+      bearing: shared.bearing,
+    }
+  })
+}
+
+// Carries a country over to a new base projection, keeping the longitude and
+// latitude it was dragged to.
+const reprojectCountry = (
+  country: CountryDatum,
+  previous: GeoProjection,
+  next: GeoProjection
+): CountryDatum => {
+  const centroid = next(country.originalCentroid) ?? [0, 0]
+  const centroidScreen: [number, number] = [centroid[0], centroid[1]]
+  if (country.offset.x === 0 && country.offset.y === 0) {
+    return { ...country, centroidScreen }
+  }
+  const current = previous.invert?.([
+    country.centroidScreen[0] + country.offset.x,
+    country.centroidScreen[1] + country.offset.y,
+  ])
+  const projected = current ? next(current) : null
+  return {
+    ...country,
+    centroidScreen,
+    offset: projected
+      ? { x: projected[0] - centroid[0], y: projected[1] - centroid[1] }
+      : { x: 0, y: 0 },
+  }
 }
 
-export const useCountryData = (projection: GeoProjection): UseCountryDataResult => {
+export const useCountryData = (
+  projection: GeoProjection,
+  sharedState: SharedMapState | null = null
+): UseCountryDataResult => {
   const [countries, setCountries] = useState<CountryDatum[]>([])
   const [worldFeatures, setWorldFeatures] = useState<CountryFeature[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [detailError, setDetailError] = useState<string | null>(null)
   const [initialSelection, setInitialSelection] = useState<InitialSelection>({
     selectedId: null,
     draggableIds: [],
   })
+  const [lateSharedSelection, setLateSharedSelection] =
+    useState<InitialSelection | null>(null)
+  // Shared entries missing from the 110m layer: admin-1 regions and
+  // microstates that only arrive with their own layer.
+  const lateSharedRef = useRef<LateShared>({
+    entries: new Map(),
+    selectedId: null,
+    detailRequested: false,
+  })
+  const attributesRef = useRef<CountryAttributes>({
+    nameLookup: new Map(),
+    areaLookup: new Map(),
+  })
+  const detailRequests = useRef(
+    new Map<FineDetailLevel, Promise<CountryFeature[]>>()
+  )
+  // Read at the end of each load so a projection switch mid-fetch is honoured
+  // without refetching the data.
+  const projectionRef = useRef(projection)
 
   useEffect(() => {
     let cancelled = false
@@ -69,52 +254,18 @@ export const useCountryData = (projection: GeoProjection): UseCountryDataResult
       try {
         setLoading(true)
         setError(null)
-        const topoResponse = await fetch(WORLD_TOPO_URL, {
-          signal: controller.signal,
-        })
-        if (!topoResponse.ok) {
-          throw new Error('Unable to load map data.')
-        }
-
-        const nameLookup = await loadCountryNames(controller.signal)
-        const topoData = (await topoResponse.json()) as CountriesTopology
-        const countriesObject = topoData.objects?.countries
-        if (!countriesObject) {
-          throw new Error('Unexpected map data format.')
-        }
-
-        const collection = topojson.feature(
-          topoData,
-          countriesObject
-        ) as FeatureCollection<Geometry, GeoJsonProperties>
-
-        const allFeatures = collection.features as CountryFeature[]
+        const [allFeatures, attributes] = await Promise.all([
+          loadTopologyFeatures(WORLD_TOPO_URL, controller.signal),
+          loadCountryAttributes(controller.signal),
+        ])
+        attributesRef.current = attributes
+        const currentProjection = projectionRef.current
 
         const prepared: CountryDatum[] = allFeatures
           .filter((feature) => feature.id !== undefined && feature.id !== null)
-          .map((feature) => {
-            const rawId = feature.id as string | number
-            const id = normalizeId(rawId)
-            const numericId = Number(rawId)
-            const meta = COUNTRY_META[numericId]
-            const [lng, lat] = d3.geoCentroid(feature)
-            const projected = projection([lng, lat]) ?? [0, 0]
-            return {
-              id,
-              name:
-                meta?.name ??
-                nameLookup.get(id) ??
-                feature.properties?.name ??
-                `Country ${id}`,
-              area: meta?.area ?? null,
-              feature,
-              originalCentroid: [lng, lat] as LonLat,
-              globeCentroid: [lng, lat] as LonLat,
-              centroidScreen: [projected[0], projected[1]] as [number, number],
-              offset: { x: 0, y: 0 },
-              color: getCountryColor(id),
-            }
-          })
+          .map((feature) =>
+            toCountryDatum(feature, attributes, currentProjection, '110m')
+          )
           .sort((a, b) => a.name.localeCompare(b.name))
 
         const availableIds = new Set(prepared.map((country) => country.id))
@@ -122,14 +273,46 @@ export const useCountryData = (projection: GeoProjection): UseCountryDataResult
           availableIds.has(id)
         )
         const fallbackIds = prepared.slice(0, 6).map((country) => country.id)
+        const sharedEntries = (sharedState?.countries ?? []).filter(
+          (entry) => getSharedIdKind(entry.id) !== 'custom'
+        )
+        const sharedIds = sharedEntries
+          .map((entry) => entry.id)
+          .filter((id) => availableIds.has(id))
+        const lateEntries = sharedEntries.filter(
+          (entry) => !availableIds.has(entry.id)
+        )
         const initialDraggableIds =
-          defaultDraggableIds.length > 0 ? defaultDraggableIds : fallbackIds
+          sharedEntries.length > 0
+            ? sharedIds
+            : defaultDraggableIds.length > 0
+              ? defaultDraggableIds
+              : fallbackIds
+        const sharedSelectedId =
+          sharedState?.selectedId && availableIds.has(sharedState.selectedId)
+            ? sharedState.selectedId
+            : null
 
         if (!cancelled) {
-          setCountries(prepared)
+          lateSharedRef.current = {
+            entries: new Map(lateEntries.map((entry) => [entry.id, entry])),
+            selectedId:
+              sharedState?.selectedId && !sharedSelectedId
+                ? sharedState.selectedId
+                : null,
+            detailRequested: false,
+          }
+          setCountries(
+            applySharedPositions(
+              prepared,
+              sharedEntries.filter((entry) => availableIds.has(entry.id)),
+              currentProjection
+            )
+          )
           setWorldFeatures(allFeatures)
           setInitialSelection({
-            selectedId: initialDraggableIds[0] ?? prepared[0]?.id ?? null,
+            selectedId:
+              sharedSelectedId ?? initialDraggableIds[0] ?? prepared[0]?.id ?? null,
             draggableIds: initialDraggableIds,
           })
           setLoading(false)
@@ -151,8 +334,132 @@ export const useCountryData = (projection: GeoProjection): UseCountryDataResult
       cancelled = true
       controller.abort()
     }
+  }, [sharedState])
+
+  useEffect(() => {
+    const previous = projectionRef.current
+    if (previous === projection) {
+      return
+    }
+    projectionRef.current = projection
+    setCountries((prev) =>
+      prev.map((country) => reprojectCountry(country, previous, projection))
+    )
   }, [projection])
 
+  // Swaps in finer outlines for the given ids (or every country, adding ones
+  // too small for the 110m layer) while keeping ids and positions stable.
+  const requestDetail = useCallback(
+    (level: FineDetailLevel, ids?: string[]) => {
+      let request = detailRequests.current.get(level)
+      if (!request) {
+        request = loadDetailFeatures(level)
+        detailRequests.current.set(level, request)
+        // Forget a failed load so the next zoom or selection retries it.
+        request.catch(() => {
+          detailRequests.current.delete(level)
+        })
+      }
+      request.then((features) => {
+        setDetailError(null)
+        const byId = new Map(
+          features.map((feature) => [
+            normalizeId(feature.id as string | number),
+            feature,
+          ])
+        )
+        const targetIds = ids ? new Set(ids) : null
+        setCountries((prev) => {
+          if (prev.length === 0) {
+            return prev
+          }
+          const knownIds = new Set(prev.map((country) => country.id))
+          const next = prev.map((country) => {
+            const detailed = byId.get(country.id)
+            if (
+              !detailed ||
+              country.detail === null ||
+              DETAIL_RANK[country.detail] >= DETAIL_RANK[level] ||
+              (targetIds && !targetIds.has(country.id))
+            ) {
+              return country
+            }
+            return {
+              ...country,
+              detail: level,
+              feature: { ...country.feature, geometry: detailed.geometry },
+              area:
+                country.areaSource === 'computed'
+                  ? getComputedArea(detailed)
+                  : country.area,
+            }
+          })
+          if (targetIds) {
+            return next
+          }
+          const added = [...byId.entries()]
+            .filter(([id]) => !knownIds.has(id))
+            .map(([, feature]) =>
+              toCountryDatum(
+                feature,
+                attributesRef.current,
+                projectionRef.current,
+                level
+              )
+            )
+          return added.length > 0
+            ? [...next, ...added].sort((a, b) => a.name.localeCompare(b.name))
+            : next
+        })
+      }, () => {
+        setDetailError(
+          `Detailed ${level} outlines could not be loaded; showing 1:110m shapes.`
+        )
+      })
+    },
+    []
+  )
+
+  // Places shared entries once their layer has loaded: microstates come with
+  // the 50m outlines, regions with the admin-1 layer the caller turns on.
+  useEffect(() => {
+    const late = lateSharedRef.current
+    if (countries.length === 0 || late.entries.size === 0) {
+      return
+    }
+    const availableIds = new Set(countries.map((country) => country.id))
+    const arrived = [...late.entries.values()].filter((entry) =>
+      availableIds.has(entry.id)
+    )
+    if (arrived.length === 0) {
+      if (
+        !late.detailRequested &&
+        [...late.entries.keys()].some(
+          (id) => getSharedIdKind(id) === 'country'
+        )
+      ) {
+        late.detailRequested = true
+        requestDetail('50m')
+      }
+      return
+    }
+    arrived.forEach((entry) => late.entries.delete(entry.id))
+    const selectedId =
+      late.selectedId && availableIds.has(late.selectedId)
+        ? late.selectedId
+        : null
+    if (selectedId) {
+      late.selectedId = null
+    }
+    setCountries((prev) =>
+      applySharedPositions(prev, arrived, projectionRef.current)
+    )
+    setLateSharedSelection({
+      selectedId,
+      draggableIds: arrived.map((entry) => entry.id),
+    })
+  }, [countries, requestDetail])
+
   return {
     countries,
     setCountries,
@@ -160,5 +467,8 @@ export const useCountryData = (projection: GeoProjection): UseCountryDataResult
     loading,
     error,
     initialSelection,
+    lateSharedSelection,
+    requestDetail,
+    detailError,
   }
 }
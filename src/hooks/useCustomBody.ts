@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { StatusMessage } from '../types'
+import { DEFAULT_CUSTOM_BODY } from '../solar'
+import type { CustomBody } from '../solar'
+
+// Within this of 2:1 an upload is treated as a proper equirectangular map.
+const EQUIRECTANGULAR_TOLERANCE = 0.05
+
+export const useCustomBody = () => {
+  const [body, setBody] = useState<CustomBody>(DEFAULT_CUSTOM_BODY)
+  const [textureStatus, setTextureStatus] =
+    useState<StatusMessage | null>(null)
+  const objectUrl = useRef<string | null>(null)
+
+  const replaceTexture = useCallback((url: string | null) => {
+    if (objectUrl.current) {
+      URL.revokeObjectURL(objectUrl.current)
+    }
+    objectUrl.current = url
+    setBody((prev) => ({ ...prev, textureUrl: url }))
+  }, [])
+
+  useEffect(
+    () => () => {
+      if (objectUrl.current) {
+        URL.revokeObjectURL(objectUrl.current)
+      }
+    },
+    []
+  )
+
+  const update = useCallback(
+    (changes: Partial<Omit<CustomBody, 'textureUrl'>>) => {
+      setBody((prev) => ({ ...prev, ...changes }))
+    },
+    []
+  )
+
+  const importTexture = useCallback(
+    (file: File) => {
+      if (!file.type.startsWith('image/')) {
+        setTextureStatus({
+          message: `${file.name} is not an image.`,
+          isError: true,
+        })
+        return
+      }
+      const url = URL.createObjectURL(file)
+      const image = new Image()
+      image.onload = () => {
+        replaceTexture(url)
+        const ratio = image.naturalWidth / image.naturalHeight
+        setTextureStatus({
+          message:
+            Math.abs(ratio - 2) <= EQUIRECTANGULAR_TOLERANCE
+              ? `Using ${file.name}.`
+              : `Using ${file.name}; it is not 2:1, so it is stretched to cover the sphere.`,
+          isError: false,
+        })
+      }
+      image.onerror = () => {
+        URL.revokeObjectURL(url)
+        setTextureStatus({
+          message: `Unable to read ${file.name}.`,
+          isError: true,
+        })
+      }
+      image.src = url
+    },
+    [replaceTexture]
+  )
+
+  const clearTexture = useCallback(() => {
+    replaceTexture(null)
+    setTextureStatus(null)
+  }, [replaceTexture])
+
+  return { body, textureStatus, update, importTexture, clearTexture }
+}
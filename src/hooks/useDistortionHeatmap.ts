@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react'
+import { createDistortionHeatmap } from '../utils/heatmap'
+
+// Builds the heatmap image on the client only (prerendering has no canvas)
+// and at most once per frame while the projection is being dragged around.
+export const useDistortionHeatmap = (
+  enabled: boolean,
+  width: number,
+  height: number,
+  getArealScale: (point: [number, number]) => number | null
+) => {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!enabled) {
+      setUrl(null)
+      return
+    }
+    const frame = requestAnimationFrame(() => {
+      setUrl(createDistortionHeatmap(width, height, getArealScale))
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [enabled, width, height, getArealScale])
+
+  return url
+}
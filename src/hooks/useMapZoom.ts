@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { PointerEvent as ReactPointerEvent, RefObject } from 'react'
+import type { MapTransform } from '../types'
+import { MAP_ZOOM_MAX, MAP_ZOOM_MIN } from '../constants'
+import { clamp } from '../utils/geo'
+
+type Point = { x: number; y: number }
+
+type GestureStart = {
+  transform: MapTransform
+  points: Point[]
+}
+
+type UseMapZoomOptions = {
+  svgRef: RefObject<SVGSVGElement>
+  width: number
+  height: number
+  active: boolean
+}
+
+const IDENTITY_TRANSFORM: MapTransform = { k: 1, x: 0, y: 0 }
+const WHEEL_ZOOM_SENSITIVITY = 0.002
+
+// Keeps the zoomed content covering the viewBox so panning never reveals
+// empty space past the map edges.
+const clampTransform = (
+  { k, x, y }: MapTransform,
+  width: number,
+  height: number
+): MapTransform => {
+  const nextK = clamp(k, MAP_ZOOM_MIN, MAP_ZOOM_MAX)
+  return {
+    k: nextK,
+    x: clamp(x, width * (1 - nextK), 0),
+    y: clamp(y, height * (1 - nextK), 0),
+  }
+}
+
+const zoomAround = (
+  transform: MapTransform,
+  nextK: number,
+  { x, y }: Point
+): MapTransform => {
+  const k = clamp(nextK, MAP_ZOOM_MIN, MAP_ZOOM_MAX)
+  const ratio = k / transform.k
+  return {
+    k,
+    x: x - (x - transform.x) * ratio,
+    y: y - (y - transform.y) * ratio,
+  }
+}
+
+const getMidpoint = (a: Point, b: Point): Point => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+})
+
+export const useMapZoom = ({
+  svgRef,
+  width,
+  height,
+  active,
+}: UseMapZoomOptions) => {
+  const [transform, setTransform] = useState<MapTransform>(IDENTITY_TRANSFORM)
+  const [isPanning, setIsPanning] = useState(false)
+  const transformRef = useRef(transform)
+  const pointers = useRef(new Map<number, Point>())
+  const gestureStart = useRef<GestureStart | null>(null)
+
+  const applyTransform = useCallback(
+    (next: MapTransform) => {
+      const clamped = clampTransform(next, width, height)
+      transformRef.current = clamped
+      setTransform(clamped)
+    },
+    [width, height]
+  )
+
+  // Client pixels -> viewBox units, ignoring the zoom transform.
+  const toViewBoxPoint = useCallback(
+    (clientX: number, clientY: number): Point | null => {
+      const svg = svgRef.current
+      if (!svg) {
+        return null
+      }
+      const rect = svg.getBoundingClientRect()
+      if (rect.width === 0 || rect.height === 0) {
+        return null
+      }
+      return {
+        x: ((clientX - rect.left) / rect.width) * width,
+        y: ((clientY - rect.top) / rect.height) * height,
+      }
+    },
+    [svgRef, width, height]
+  )
+
+  // How many projection units one client pixel covers at the current zoom;
+  // country drags multiply pointer deltas by this to stay under the cursor.
+  const getProjectionUnitsPerPixel = useCallback(() => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    const viewBoxScale = rect && rect.width > 0 ? width / rect.width : 1
+    return viewBoxScale / transformRef.current.k
+  }, [svgRef, width])
+
+  // Client pixels -> projection units, undoing the current zoom and pan.
+  const toMapPoint = useCallback(
+    (clientX: number, clientY: number): Point | null => {
+      const point = toViewBoxPoint(clientX, clientY)
+      if (!point) {
+        return null
+      }
+      const { k, x, y } = transformRef.current
+      return { x: (point.x - x) / k, y: (point.y - y) / k }
+    },
+    [toViewBoxPoint]
+  )
+
+  const restartGesture = useCallback(() => {
+    gestureStart.current = {
+      transform: transformRef.current,
+      points: [...pointers.current.values()],
+    }
+  }, [])
+
+  const handleBackgroundPointerDown = (
+    event: ReactPointerEvent<SVGSVGElement>
+  ) => {
+    if (event.button !== 0) {
+      return
+    }
+    const point = toViewBoxPoint(event.clientX, event.clientY)
+    if (!point) {
+      return
+    }
+    event.preventDefault()
+    pointers.current.set(event.pointerId, point)
+    restartGesture()
+    setIsPanning(true)
+  }
+
+  const handlePointerMove = useCallback(
+    (event: PointerEvent) => {
+      if (!pointers.current.has(event.pointerId) || !gestureStart.current) {
+        return
+      }
+      const point = toViewBoxPoint(event.clientX, event.clientY)
+      if (!point) {
+        return
+      }
+      pointers.current.set(event.pointerId, point)
+      const start = gestureStart.current
+      const current = [...pointers.current.values()]
+      if (current.length >= 2 && start.points.length >= 2) {
+        const startDistance = Math.hypot(
+          start.points[0].x - start.points[1].x,
+          start.points[0].y - start.points[1].y
+        )
+        const distance = Math.hypot(
+          current[0].x - current[1].x,
+          current[0].y - current[1].y
+        )
+        const startMid = getMidpoint(start.points[0], start.points[1])
+        const mid = getMidpoint(current[0], current[1])
+        const k = start.transform.k * (distance / Math.max(startDistance, 1))
+        const zoomed = zoomAround(start.transform, k, startMid)
+        applyTransform({
+          ...zoomed,
+          x: zoomed.x + mid.x - startMid.x,
+          y: zoomed.y + mid.y - startMid.y,
+        })
+        return
+      }
+      applyTransform({
+        ...start.transform,
+        x: start.transform.x + point.x - start.points[0].x,
+        y: start.transform.y + point.y - start.points[0].y,
+      })
+    },
+    [applyTransform, toViewBoxPoint]
+  )
+
+  const handlePointerEnd = useCallback((event: PointerEvent) => {
+    if (!pointers.current.delete(event.pointerId)) {
+      return
+    }
+    if (pointers.current.size === 0) {
+      gestureStart.current = null
+      setIsPanning(false)
+      return
+    }
+    restartGesture()
+  }, [restartGesture])
+
+  useEffect(() => {
+    if (!isPanning) {
+      return
+    }
+    window.addEventListener('pointermove', handlePointerMove)
+    window.addEventListener('pointerup', handlePointerEnd)
+    window.addEventListener('pointercancel', handlePointerEnd)
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove)
+      window.removeEventListener('pointerup', handlePointerEnd)
+      window.removeEventListener('pointercancel', handlePointerEnd)
+    }
+  }, [isPanning, handlePointerMove, handlePointerEnd])
+
+  // React registers wheel listeners as passive, so preventDefault (needed to
+  // keep the page from scrolling while zooming) requires a native listener.
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!active || !svg) {
+      return
+    }
+    const handleWheel = (event: WheelEvent) => {
+      const point = toViewBoxPoint(event.clientX, event.clientY)
+      if (!point) {
+        return
+      }
+      event.preventDefault()
+      const factor = Math.exp(-event.deltaY * WHEEL_ZOOM_SENSITIVITY)
+      applyTransform(
+        zoomAround(transformRef.current, transformRef.current.k * factor, point)
+      )
+    }
+    svg.addEventListener('wheel', handleWheel, { passive: false })
+    return () => {
+      svg.removeEventListener('wheel', handleWheel)
+    }
+  }, [active, svgRef, toViewBoxPoint, applyTransform])
+
+  const zoomBy = useCallback(
+    (factor: number) => {
+      applyTransform(
+        zoomAround(transformRef.current, transformRef.current.k * factor, {
+          x: width / 2,
+          y: height / 2,
+        })
+      )
+    },
+    [applyTransform, width, height]
+  )
+
+  const resetZoom = useCallback(() => {
+    applyTransform(IDENTITY_TRANSFORM)
+  }, [applyTransform])
+
+  return {
+    transform,
+    isPanning,
+    handleBackgroundPointerDown,
+    getProjectionUnitsPerPixel,
+    toMapPoint,
+    zoomBy,
+    resetZoom,
+  }
+}
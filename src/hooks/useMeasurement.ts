@@ -0,0 +1,98 @@
+import { useCallback, useRef, useState } from 'react'
+import type {
+  MouseEvent as ReactMouseEvent,
+  PointerEvent as ReactPointerEvent,
+} from 'react'
+import type { DistanceUnit, LonLat, MeasurePath } from '../types'
+
+// Presses that travel further than this (in client pixels) were pans,
+// rotations or country drags rather than ruler clicks.
+const CLICK_TOLERANCE_PX = 4
+
+// Ruler state shared by the map and the globe: finished shapes plus the
+// polyline being drawn. Vertices are stored as longitude/latitude so either
+// view can draw them.
+export const useMeasurement = () => {
+  const [enabled, setEnabled] = useState(false)
+  const [unit, setUnit] = useState<DistanceUnit>('km')
+  const [paths, setPaths] = useState<MeasurePath[]>([])
+  const [draft, setDraft] = useState<LonLat[]>([])
+  const nextId = useRef(1)
+  const pressStart = useRef<{ x: number; y: number } | null>(null)
+
+  const toggle = useCallback(() => {
+    setEnabled((prev) => !prev)
+    setDraft([])
+  }, [])
+
+  const handlePointerDownCapture = useCallback(
+    (event: ReactPointerEvent<Element>) => {
+      pressStart.current = { x: event.clientX, y: event.clientY }
+    },
+    []
+  )
+
+  const handleClick = useCallback(
+    (
+      event: ReactMouseEvent<Element>,
+      toLonLat: (clientX: number, clientY: number) => LonLat | null
+    ) => {
+      const start = pressStart.current
+      pressStart.current = null
+      if (
+        !enabled ||
+        (start &&
+          Math.hypot(event.clientX - start.x, event.clientY - start.y) >
+            CLICK_TOLERANCE_PX)
+      ) {
+        return
+      }
+      const point = toLonLat(event.clientX, event.clientY)
+      if (point) {
+        setDraft((prev) => [...prev, point])
+      }
+    },
+    [enabled]
+  )
+
+  const finish = useCallback(
+    (closed: boolean) => {
+      if (draft.length < (closed ? 3 : 2)) {
+        return
+      }
+      const id = nextId.current
+      nextId.current += 1
+      setPaths((prev) => [...prev, { id, points: draft, closed }])
+      setDraft([])
+    },
+    [draft]
+  )
+
+  const undo = useCallback(() => {
+    setDraft((prev) => prev.slice(0, -1))
+  }, [])
+
+  const remove = useCallback((id: number) => {
+    setPaths((prev) => prev.filter((path) => path.id !== id))
+  }, [])
+
+  const clear = useCallback(() => {
+    setPaths([])
+    setDraft([])
+  }, [])
+
+  return {
+    enabled,
+    unit,
+    paths,
+    draft,
+    toggle,
+    setUnit,
+    handlePointerDownCapture,
+    handleClick,
+    finish,
+    undo,
+    remove,
+    clear,
+  }
+}
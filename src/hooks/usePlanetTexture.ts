@@ -9,8 +9,11 @@ type TextureData = {
 
 type UsePlanetTextureOptions = {
   textureUrl: string | null
+  fallbackColor: string
   projection: GeoProjection
   radius: number
+  // Apparent polar/equatorial ratio; the disk is squashed vertically to match.
+  axisRatio: number
   previewSize: number
   solarSystemEnabled: boolean
   loading: boolean
@@ -18,10 +21,31 @@ type UsePlanetTextureOptions = {
   isDragging: boolean
 }
 
+const DEG_TO_RAD = Math.PI / 180
+
+const parseHexColor = (hex: string): [number, number, number] => {
+  const value = Number.parseInt(hex.replace('#', ''), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+// Soft latitude bands with a little longitudinal wobble, so untextured
+// bodies still show which way they are turned.
+const getProceduralShade = (lon: number, lat: number) => {
+  const lambda = lon * DEG_TO_RAD
+  const phi = lat * DEG_TO_RAD
+  return (
+    0.78 +
+    0.14 * Math.sin(phi * 6 + 0.8 * Math.sin(lambda * 3)) +
+    0.08 * Math.sin(lambda * 11 + phi * 7)
+  )
+}
+
 export const usePlanetTexture = ({
   textureUrl,
+  fallbackColor,
   projection,
   radius,
+  axisRatio,
   previewSize,
   solarSystemEnabled,
   loading,
@@ -72,6 +96,7 @@ export const usePlanetTexture = ({
     const centerCss = cssSize / 2
     const baseColor: [number, number, number] = [10, 18, 36]
     const texture = textureDataRef.current
+    const fallback = parseHexColor(fallbackColor)
     const invert = projection.invert
     let imageDataEntry = imageDataRef.current
     if (!imageDataEntry || imageDataEntry.size !== pixelSize) {
@@ -85,7 +110,7 @@ export const usePlanetTexture = ({
     const point: [number, number] = [0, 0]
     for (let y = 0; y < pixelSize; y += 1) {
       const cssY = y / scaleFactor
-      const dy = cssY - centerCss
+      const dy = (cssY - centerCss) / axisRatio
       for (let x = 0; x < pixelSize; x += 1) {
         const cssX = x / scaleFactor
         const dx = cssX - centerCss
@@ -102,17 +127,24 @@ export const usePlanetTexture = ({
         output[destIndex + 2] = baseColor[2]
         output[destIndex + 3] = 255
 
-        if (!texture || !invert) {
+        if (!invert) {
           continue
         }
         point[0] = cssX * scale
-        point[1] = cssY * scale
+        point[1] = (centerCss + dy) * scale
         const lonLat = invert(point)
         if (!lonLat) {
           continue
         }
-        const { data, width, height } = texture
         const [lon, lat] = lonLat
+        if (!texture) {
+          const shade = getProceduralShade(lon, lat)
+          output[destIndex] = Math.min(255, fallback[0] * shade)
+          output[destIndex + 1] = Math.min(255, fallback[1] * shade)
+          output[destIndex + 2] = Math.min(255, fallback[2] * shade)
+          continue
+        }
+        const { data, width, height } = texture
         const u = (lon + 180) / 360
         const v = (90 - lat) / 180
         const srcX = Math.min(width - 1, Math.max(0, Math.floor(u * width)))
@@ -124,7 +156,7 @@ export const usePlanetTexture = ({
       }
     }
     context.putImageData(imageDataEntry.imageData, 0, 0)
-  }, [previewSize, projection, radius, isDragging])
+  }, [previewSize, projection, radius, axisRatio, isDragging, fallbackColor])
 
   useEffect(() => {
     if (!textureUrl) {
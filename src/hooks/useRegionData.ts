@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react'
+import type { FeatureCollection, Geometry } from 'geojson'
+import type { GeoProjection } from 'd3-geo'
+import type { CountryDatum, CountryFeature } from '../types'
+import { ADMIN1_URL } from '../constants'
+import { createCountryDatum } from '../utils/country'
+
+type RegionProperties = {
+  name?: string
+  parent?: string | null
+}
+
+type UseRegionDataResult = {
+  regions: CountryDatum[]
+  loading: boolean
+  error: string | null
+}
+
+// Admin-1 shapes are heavier than the country layer, so they are only
+// fetched once the user opts in; the result is cached for the session.
+export const useRegionData = (
+  projection: GeoProjection,
+  enabled: boolean
+): UseRegionDataResult => {
+  const [regions, setRegions] = useState<CountryDatum[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const hasRegions = regions.length > 0
+
+  useEffect(() => {
+    if (!enabled || hasRegions) {
+      return
+    }
+    let cancelled = false
+    const controller = new AbortController()
+
+    const loadRegions = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await fetch(ADMIN1_URL, { signal: controller.signal })
+        if (!response.ok) {
+          throw new Error('State and province shapes are not available.')
+        }
+        const collection = (await response.json()) as FeatureCollection<
+          Geometry,
+          RegionProperties
+        >
+        if (!Array.isArray(collection.features)) {
+          throw new Error('Unexpected region data format.')
+        }
+        const prepared = collection.features
+          .filter(
+            (feature) =>
+              feature.geometry && feature.id !== undefined && feature.id !== null
+          )
+          .map((feature) => {
+            const id = String(feature.id)
+            return createCountryDatum(
+              feature as CountryFeature,
+              {
+                id,
+                name: feature.properties?.name ?? id,
+                reportedArea: null,
+                kind: 'region',
+                parentId: feature.properties?.parent ?? null,
+              },
+              projection
+            )
+          })
+        if (!cancelled) {
+          setRegions(prepared)
+          setLoading(false)
+        }
+      } catch (err) {
+        if (cancelled) {
+          return
+        }
+        // A missing file can come back as the HTML fallback page, which
+        // fails to parse; report that the same way as a 404.
+        setError(
+          err instanceof Error && !(err instanceof SyntaxError)
+            ? err.message
+            : 'State and province shapes are not available.'
+        )
+        setLoading(false)
+      }
+    }
+
+    loadRegions()
+
+    return () => {
+      cancelled = true
+      controller.abort()
+    }
+  }, [enabled, hasRegions, projection])
+
+  return { regions, loading, error }
+}
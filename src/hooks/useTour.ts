@@ -0,0 +1,235 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import * as d3 from 'd3'
+import type { CountryDatum, LonLat, Tour, TourStep } from '../types'
+
+// Time a finished step stays on screen before the next one starts.
+const TOUR_STEP_PAUSE_MS = 1500
+
+type UseTourOptions = {
+  countries: CountryDatum[]
+  getCurrentCoordinates: (country: CountryDatum) => LonLat
+  placeCountry: (id: string, target: LonLat) => void
+  resetCountryPosition: (id: string) => void
+  onStepStart: (countryId: string) => void
+}
+
+export const resolveTourCountry = (
+  countries: CountryDatum[],
+  step: TourStep
+) => {
+  const key = step.country.toLowerCase()
+  return (
+    countries.find((country) => country.id === step.country) ??
+    countries.find((country) => country.name.toLowerCase() === key) ??
+    null
+  )
+}
+
+// Plays a tour by easing one country at a time along the great circle to its
+// target; the caller's placeCountry projects each frame onto the map.
+export const useTour = ({
+  countries,
+  getCurrentCoordinates,
+  placeCountry,
+  resetCountryPosition,
+  onStepStart,
+}: UseTourOptions) => {
+  const [tour, setTour] = useState<Tour | null>(null)
+  const [stepIndex, setStepIndex] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const progressRef = useRef(0)
+  // Where each step's country started, so stepping back can undo it.
+  const stepStarts = useRef(new Map<number, { id: string; from: LonLat }>())
+  const latest = useRef({
+    countries,
+    getCurrentCoordinates,
+    placeCountry,
+    resetCountryPosition,
+    onStepStart,
+  })
+  useEffect(() => {
+    latest.current = {
+      countries,
+      getCurrentCoordinates,
+      placeCountry,
+      resetCountryPosition,
+      onStepStart,
+    }
+  })
+
+  const updateProgress = (value: number) => {
+    progressRef.current = value
+    setProgress(value)
+  }
+
+  const goToStep = useCallback((index: number) => {
+    progressRef.current = 0
+    setProgress(0)
+    setStepIndex(index)
+  }, [])
+
+  useEffect(() => {
+    if (!playing || !tour) {
+      return
+    }
+    const step = tour.steps[stepIndex]
+    if (!step) {
+      setPlaying(false)
+      return
+    }
+    if (progressRef.current >= 1) {
+      // Paused during the hold after a step: carry on with the next one.
+      if (stepIndex + 1 < tour.steps.length) {
+        goToStep(stepIndex + 1)
+      } else {
+        setPlaying(false)
+      }
+      return
+    }
+    const { countries: current, getCurrentCoordinates: getCoords } =
+      latest.current
+    const country = resolveTourCountry(current, step)
+    let frame = 0
+    let timeout = 0
+    const advance = () => {
+      if (stepIndex + 1 >= tour.steps.length) {
+        setPlaying(false)
+        return
+      }
+      timeout = window.setTimeout(
+        () => goToStep(stepIndex + 1),
+        TOUR_STEP_PAUSE_MS
+      )
+    }
+    if (!country) {
+      // Unknown countries (e.g. a typo in a custom tour) are skipped.
+      updateProgress(1)
+      advance()
+      return () => window.clearTimeout(timeout)
+    }
+    latest.current.onStepStart(country.id)
+    const from = getCoords(country)
+    if (!stepStarts.current.has(stepIndex)) {
+      stepStarts.current.set(stepIndex, { id: country.id, from })
+    }
+    // Resuming after a pause continues from where the country stopped.
+    const startProgress = progressRef.current
+    const duration = step.duration * (1 - startProgress)
+    const interpolate = d3.geoInterpolate(from, step.target)
+    const startTime = performance.now()
+    const tick = (now: number) => {
+      const local = duration > 0 ? Math.min(1, (now - startTime) / duration) : 1
+      const eased = d3.easeCubicInOut(local)
+      const [lon, lat] = interpolate(eased)
+      latest.current.placeCountry(country.id, [lon, lat])
+      updateProgress(startProgress + (1 - startProgress) * local)
+      if (local < 1) {
+        frame = requestAnimationFrame(tick)
+        return
+      }
+      advance()
+    }
+    frame = requestAnimationFrame(tick)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.clearTimeout(timeout)
+    }
+  }, [playing, tour, stepIndex, goToStep])
+
+  const startTour = useCallback(
+    (next: Tour | null) => {
+      setPlaying(false)
+      stepStarts.current.clear()
+      setTour(next)
+      goToStep(0)
+    },
+    [goToStep]
+  )
+
+  const play = useCallback(() => {
+    if (!tour) {
+      return
+    }
+    if (stepIndex >= tour.steps.length - 1 && progressRef.current >= 1) {
+      // Replaying a finished tour starts it over.
+      stepStarts.current.clear()
+      goToStep(0)
+    }
+    setPlaying(true)
+  }, [tour, stepIndex, goToStep])
+
+  const pause = useCallback(() => setPlaying(false), [])
+
+  // Jumps the current step to its end state without animating.
+  const stepForward = useCallback(() => {
+    if (!tour) {
+      return
+    }
+    setPlaying(false)
+    const step = tour.steps[stepIndex]
+    const country = step
+      ? resolveTourCountry(latest.current.countries, step)
+      : null
+    if (step && country && progressRef.current < 1) {
+      if (!stepStarts.current.has(stepIndex)) {
+        stepStarts.current.set(stepIndex, {
+          id: country.id,
+          from: latest.current.getCurrentCoordinates(country),
+        })
+      }
+      latest.current.onStepStart(country.id)
+      latest.current.placeCountry(country.id, step.target)
+      updateProgress(1)
+      return
+    }
+    if (stepIndex + 1 < tour.steps.length) {
+      goToStep(stepIndex + 1)
+    }
+  }, [tour, stepIndex, goToStep])
+
+  // Undoes the current step (or the previous one if nothing moved yet).
+  const stepBack = useCallback(() => {
+    if (!tour) {
+      return
+    }
+    setPlaying(false)
+    const index =
+      progressRef.current > 0 || stepIndex === 0 ? stepIndex : stepIndex - 1
+    const start = stepStarts.current.get(index)
+    if (start) {
+      latest.current.placeCountry(start.id, start.from)
+      latest.current.onStepStart(start.id)
+      stepStarts.current.delete(index)
+    }
+    goToStep(index)
+  }, [tour, stepIndex, goToStep])
+
+  // Puts every country the tour touches back home and rewinds to step one.
+  const restart = useCallback(() => {
+    if (!tour) {
+      return
+    }
+    setPlaying(false)
+    new Set(
+      tour.steps
+        .map((step) => resolveTourCountry(latest.current.countries, step)?.id)
+        .filter((id): id is string => Boolean(id))
+    ).forEach((id) => latest.current.resetCountryPosition(id))
+    stepStarts.current.clear()
+    goToStep(0)
+  }, [tour, goToStep])
+
+  return {
+    tour,
+    stepIndex,
+    playing,
+    progress,
+    startTour,
+    play,
+    pause,
+    stepForward,
+    stepBack,
+    restart,
+  }
+}
@@ -3,6 +3,27 @@ export type FaqItem = {
   answer: string
 }
 
+export type ComparisonMeta = {
+  title: string
+  description: string
+  canonical: string
+  eyebrow: string
+  h1: string
+  intro: string
+  primaryName: string
+  primaryAreaKm2: number
+  secondaryName: string
+  secondaryAreaKm2: number
+  secondaryType: string
+  countryIds: string[]
+  takeaway: string
+  faq: FaqItem[]
+  // Set only on generated pages: every compared country, and whether the page
+  // is one of the prerendered `generatedComparisons` that search engines may index.
+  members?: Array<{ name: string; areaKm2: number }>
+  indexable?: boolean
+}
+
 export const MAIN_FAQS: FaqItem[] = [
   {
     question: 'What is a true size of countries map?',
@@ -1,56 +1,144 @@
 export const EARTH_DIAMETER_KM = 12742
 
+export type PlanetGroup = 'star' | 'planet' | 'moon' | 'dwarf'
+
+export const PLANET_GROUPS: Array<{ id: PlanetGroup; label: string }> = [
+  { id: 'star', label: 'Star' },
+  { id: 'planet', label: 'Planets' },
+  { id: 'moon', label: 'Moons' },
+  { id: 'dwarf', label: 'Dwarf planets' },
+]
+
+// The giant planets list equatorial diameters and carry their flattening,
+// (equatorial - polar) / equatorial, which the disk and ring scaling build
+// on; every other body is close to round and lists its mean diameter. Moons
+// name the planet they orbit.
 export const PLANETS = [
+  {
+    id: 'sun',
+    name: 'Sun',
+    diameterKm: 1392700,
+    group: 'star',
+  },
   {
     id: 'jupiter',
     name: 'Jupiter',
     diameterKm: 142984,
+    group: 'planet',
+    oblateness: 0.0649,
   },
   {
     id: 'saturn',
     name: 'Saturn',
     diameterKm: 120536,
+    group: 'planet',
+    oblateness: 0.098,
   },
   {
     id: 'uranus',
     name: 'Uranus',
     diameterKm: 51118,
+    group: 'planet',
+    oblateness: 0.0229,
   },
   {
     id: 'neptune',
     name: 'Neptune',
     diameterKm: 49528,
+    group: 'planet',
+    oblateness: 0.0171,
   },
   {
     id: 'earth',
     name: 'Earth',
     diameterKm: 12742,
-  },
-  {
-    id: 'moon',
-    name: 'Moon',
-    diameterKm: 3474,
+    group: 'planet',
   },
   {
     id: 'venus',
     name: 'Venus',
     diameterKm: 12104,
+    group: 'planet',
   },
   {
     id: 'mars',
     name: 'Mars',
     diameterKm: 6779,
+    group: 'planet',
   },
   {
     id: 'mercury',
     name: 'Mercury',
     diameterKm: 4879,
+    group: 'planet',
   },
-] as const
+  {
+    id: 'ganymede',
+    name: 'Ganymede',
+    diameterKm: 5268,
+    group: 'moon',
+    parent: 'Jupiter',
+  },
+  {
+    id: 'titan',
+    name: 'Titan',
+    diameterKm: 5150,
+    group: 'moon',
+    parent: 'Saturn',
+  },
+  {
+    id: 'io',
+    name: 'Io',
+    diameterKm: 3643,
+    group: 'moon',
+    parent: 'Jupiter',
+  },
+  {
+    id: 'moon',
+    name: 'Moon',
+    diameterKm: 3474,
+    group: 'moon',
+    parent: 'Earth',
+  },
+  {
+    id: 'europa',
+    name: 'Europa',
+    diameterKm: 3122,
+    group: 'moon',
+    parent: 'Jupiter',
+  },
+  {
+    id: 'triton',
+    name: 'Triton',
+    diameterKm: 2707,
+    group: 'moon',
+    parent: 'Neptune',
+  },
+  {
+    id: 'pluto',
+    name: 'Pluto',
+    diameterKm: 2377,
+    group: 'dwarf',
+  },
+  {
+    id: 'ceres',
+    name: 'Ceres',
+    diameterKm: 939,
+    group: 'dwarf',
+  },
+] as const satisfies ReadonlyArray<{
+  id: string
+  name: string
+  diameterKm: number
+  group: PlanetGroup
+  parent?: string
+  oblateness?: number
+}>
 
 export type Planet = (typeof PLANETS)[number]
 
 export const PLANET_COLORS: Record<Planet['id'], string> = {
+  sun: '#f5b942',
   jupiter: '#d7a77a',
   saturn: '#d9c28a',
   uranus: '#78c7d8',
@@ -60,9 +148,18 @@ export const PLANET_COLORS: Record<Planet['id'], string> = {
   venus: '#d8b365',
   mars: '#c76b3a',
   mercury: '#b0a6a0',
+  ganymede: '#9e958a',
+  titan: '#d39b4a',
+  io: '#e3c65a',
+  europa: '#cbbba2',
+  triton: '#b9c4c9',
+  pluto: '#c9b39a',
+  ceres: '#8f8a84',
 }
 
+// Bodies without a bundled map are drawn procedurally from PLANET_COLORS.
 export const PLANET_TEXTURES: Record<Planet['id'], string | null> = {
+  sun: '2k_sun.jpg',
   jupiter: '2k_jupiter.jpg',
   saturn: '2k_saturn.jpg',
   uranus: '2k_uranus.jpg',
@@ -72,4 +169,47 @@ export const PLANET_TEXTURES: Record<Planet['id'], string | null> = {
   venus: '2k_venus_atmosphere.jpg',
   mars: '2k_mars.jpg',
   mercury: '2k_mercury.jpg',
+  ganymede: null,
+  titan: null,
+  io: null,
+  europa: null,
+  triton: null,
+  pluto: null,
+  ceres: null,
+}
+
+export const CUSTOM_BODY_ID = 'custom'
+
+export type BodyId = Planet['id'] | typeof CUSTOM_BODY_ID
+
+// A user-defined world such as an exoplanet or a fictional planet; the
+// texture is an object URL for an uploaded equirectangular image.
+export type CustomBody = {
+  name: string
+  diameterKm: number
+  color: string
+  textureUrl: string | null
+}
+
+// TRAPPIST-1e, 0.92 Earth radii.
+export const DEFAULT_CUSTOM_BODY: CustomBody = {
+  name: 'TRAPPIST-1e',
+  diameterKm: 11723,
+  color: '#b58ad8',
+  textureUrl: null,
+}
+
+export const CUSTOM_BODY_MIN_KM = 1
+export const CUSTOM_BODY_MAX_KM = 2000000
+
+// Everything the planet preview needs to draw a body, built-in or custom.
+export type SolarBody = {
+  id: BodyId
+  name: string
+  diameterKm: number
+  color: string
+  textureUrl: string | null
+  oblateness: number
+  rings: { innerKm: number; outerKm: number } | null
+  selfLuminous: boolean
 }
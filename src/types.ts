@@ -1,4 +1,4 @@
-import type { Feature, GeoJsonProperties, Geometry } from 'geojson'
+import type { Feature, GeoJsonProperties, Geometry, Polygon } from 'geojson'
 
 export type LonLat = [number, number]
 export type Vec3 = [number, number, number]
@@ -7,22 +7,107 @@ export type CountryFeature = Feature<Geometry, GeoJsonProperties> & {
   id?: number | string
 }
 
+// `reported` areas are total areas (land plus inland water) from the area_km2
+// column. `computed` ones are the spherical area of the loaded outline; at
+// 1:110m they are within about 2% of reported figures for a typical country
+// but can be off by half or more for small and island countries.
+export type AreaSource = 'reported' | 'computed'
+
+export type CountryKind = 'country' | 'region' | 'custom'
+
+// Natural Earth scale of a country outline; `null` for shapes that do not
+// come from the world-atlas country layers.
+export type DetailLevel = '110m' | '50m' | '10m'
+
 export type CountryDatum = {
   id: string
   name: string
+  kind: CountryKind
+  parentId: string | null
+  detail: DetailLevel | null
   area: number | null
+  areaSource: AreaSource | null
   feature: CountryFeature
   originalCentroid: LonLat
   globeCentroid: LonLat
   centroidScreen: [number, number]
   offset: { x: number; y: number }
+  // Compass heading in degrees the outline is turned about its own centroid.
+  bearing: number
   color: string
 }
 
+// Zoom/pan applied on top of the fixed Mercator projection, in viewBox units.
+export type MapTransform = {
+  k: number
+  x: number
+  y: number
+}
+
+export type MapProjectionId =
+  | 'mercator'
+  | 'web-mercator'
+  | 'robinson'
+  | 'equal-earth'
+  | 'mollweide'
+  | 'gall-peters'
+
+export type EquatorProjectionId =
+  | 'mercator'
+  | 'transverse-mercator'
+  | 'equal-earth'
+  | 'azimuthal-equidistant'
+  | 'mollweide'
+
+export type AnimationFormat = 'gif' | 'webm'
+
+export type AnimationLayout = 'map' | 'combo'
+
+// A keyframed sweep of the Equator Lab rotation, rendered frame by frame.
+// Looping sweeps end where they start, so their last keyframe is not drawn
+// twice.
+export type AnimationExportSettings = {
+  keyframes: Vec3[]
+  loop: boolean
+  layout: AnimationLayout
+  scale: number
+  fps: number
+  duration: number
+  format: AnimationFormat
+}
+
+export type TissotSettings = {
+  enabled: boolean
+  spacing: number
+}
+
+export type TissotCircle = {
+  id: string
+  center: LonLat
+  geometry: Polygon
+}
+
+// `country` is an id or a country name, so hand-written tours stay readable.
+export type TourStep = {
+  country: string
+  target: LonLat
+  duration: number
+  caption: string
+}
+
+export type Tour = {
+  id: string
+  title: string
+  steps: TourStep[]
+}
+
 export type SelectedDetails = {
   originalLat: number
   currentLat: number
+  currentLon: number
   currentScale: number
+  arealDistortion: number
+  angularDistortion: number
 }
 
 export type MapRenderedCountry = {
@@ -38,7 +123,63 @@ export type GlobeHighlightCountry = {
   feature: CountryFeature
 }
 
+// Screen positions of the rotation handle drawn from the selected country's
+// centroid on the globe.
+export type GlobeBearingHandle = {
+  country: CountryDatum
+  centroid: [number, number]
+  handle: [number, number]
+}
+
+// Optional day/night shading for the planet preview; `subsolar` is the point
+// on the body with the Sun straight overhead.
+export type PlanetLighting = {
+  enabled: boolean
+  subsolar: LonLat
+}
+
+export type DistanceUnit = 'km' | 'mi'
+
+// A ruler drawing kept in longitude/latitude, so it stays put while countries
+// are dragged and renders the same on the map and the globe.
+export type MeasurePath = {
+  id: number
+  points: LonLat[]
+  closed: boolean
+}
+
+// A one-line outcome shown under a control after an import, export or
+// lookup; `isError` switches it to the alert style.
+export type StatusMessage = {
+  message: string
+  isError: boolean
+}
+
+export type StampSelection = {
+  sourceId: string
+  targetId: string
+}
+
+export type StampOverlay = {
+  country: CountryDatum
+  target: CountryDatum
+  feature: CountryFeature
+}
+
 export type PlanetPlacement = {
   id: string
   centroid: LonLat
 }
+
+export type SharedCountryState = {
+  id: string
+  mapPosition: LonLat | null
+  globePosition: LonLat | null
+  bearing: number
+}
+
+export type SharedMapState = {
+  view: 'map' | 'globe'
+  selectedId: string | null
+  countries: SharedCountryState[]
+}
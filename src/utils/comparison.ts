@@ -0,0 +1,138 @@
+import seoMeta from '../seo-meta.json'
+import countryIndex from '../country-index.json'
+import { formatSeoArea } from '../seo'
+import type { ComparisonMeta, FaqItem } from '../seo'
+import { COUNTRY_META } from './country'
+
+export const COMPARISON_SEPARATOR = '-vs-'
+
+type IndexedCountry = {
+  id: string
+  name: string
+  areaKm2: number
+}
+
+// Keep in step with toSlug in scripts/build-country-index.mjs.
+export const toComparisonSlug = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+
+const countriesBySlug = (() => {
+  const lookup = new Map<string, IndexedCountry>()
+  countryIndex.forEach((entry) => {
+    const meta = COUNTRY_META[Number(entry.id)]
+    const country: IndexedCountry = {
+      id: entry.id,
+      name: meta?.name ?? entry.name,
+      areaKm2: meta?.area ?? entry.areaKm2,
+    }
+    const slugs = [toComparisonSlug(country.name), ...entry.slugs]
+    slugs.forEach((slug) => {
+      if (!lookup.has(slug)) {
+        lookup.set(slug, country)
+      }
+    })
+  })
+  return lookup
+})()
+
+const formatList = (names: string[]) =>
+  names.length <= 2
+    ? names.join(' and ')
+    : `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`
+
+const formatRatio = (larger: IndexedCountry, smaller: IndexedCountry) => {
+  const ratio = larger.areaKm2 / smaller.areaKm2
+  if (ratio < 1.05) {
+    return `${larger.name} and ${smaller.name} cover roughly the same area.`
+  }
+  return `${larger.name} is about ${ratio.toFixed(1)} times the area of ${smaller.name}.`
+}
+
+const buildFaq = (members: IndexedCountry[]): FaqItem[] => {
+  const [largest] = [...members].sort((a, b) => b.areaKm2 - a.areaKm2)
+  const areaList = formatList(
+    members.map(
+      (member) => `${member.name} about ${formatSeoArea(member.areaKm2)} km²`
+    )
+  )
+  return [
+    {
+      question:
+        members.length === 2
+          ? `Which is bigger, ${members[0].name} or ${members[1].name}?`
+          : `Which is biggest: ${formatList(members.map((member) => member.name))}?`,
+      answer: `${largest.name} is the ${
+        members.length === 2 ? 'larger' : 'largest'
+      }. By total area, ${areaList}.`,
+    },
+    {
+      question: `Why do ${formatList(
+        members.map((member) => member.name)
+      )} look different sizes on a Mercator map?`,
+      answer:
+        'Mercator projection enlarges areas by 1 / cos(latitude), so whichever country lies farther from the equator looks inflated compared with its true area.',
+    },
+  ]
+}
+
+// Builds comparison page copy on the fly for any set of countries in the map
+// data, so /compare/<a>-vs-<b>[-vs-<c>...] works beyond the curated pages.
+export const buildComparisonMeta = (slug: string): ComparisonMeta | null => {
+  const members = slug
+    .toLowerCase()
+    .split(COMPARISON_SEPARATOR)
+    .map((part) => countriesBySlug.get(part) ?? null)
+  if (members.length < 2 || members.some((member) => member === null)) {
+    return null
+  }
+  const resolved = members as IndexedCountry[]
+  if (new Set(resolved.map((member) => member.id)).size !== resolved.length) {
+    return null
+  }
+
+  const names = resolved.map((member) => member.name)
+  const canonicalSlug = names.map(toComparisonSlug).join(COMPARISON_SEPARATOR)
+  const [primary, secondary] = resolved
+  const [largest, ...rest] = [...resolved].sort((a, b) => b.areaKm2 - a.areaKm2)
+  const smallest = rest[rest.length - 1]
+  const heading = names.join(' vs ')
+
+  return {
+    title: `${heading}: True Size Map Comparison`,
+    description: `Compare the true size of ${formatList(
+      names
+    )} on an interactive map and see how Mercator projection distorts their apparent areas.`,
+    canonical: `${seoMeta.siteBaseUrl}/compare/${canonicalSlug}`,
+    eyebrow: 'Country Size Comparison',
+    h1: `${heading}: True Size Comparison`,
+    intro: `${formatList(
+      names
+    )} look very different on a Mercator world map than they do on a globe. Drag each country on the map to see how latitude changes its apparent scale.`,
+    primaryName: primary.name,
+    primaryAreaKm2: primary.areaKm2,
+    secondaryName: secondary.name,
+    secondaryAreaKm2: secondary.areaKm2,
+    secondaryType: 'country',
+    countryIds: resolved.map((member) => member.id),
+    takeaway: formatRatio(largest, smallest),
+    faq: buildFaq(resolved),
+    members: resolved.map((member) => ({
+      name: member.name,
+      areaKm2: member.areaKm2,
+    })),
+    indexable: seoMeta.generatedComparisons.includes(canonicalSlug),
+  }
+}
+
+export const resolveComparisonMeta = (slug: string): ComparisonMeta | null => {
+  if (Object.prototype.hasOwnProperty.call(seoMeta.comparisons, slug)) {
+    return seoMeta.comparisons[slug as keyof typeof seoMeta.comparisons]
+  }
+  return buildComparisonMeta(slug)
+}
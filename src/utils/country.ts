@@ -1,3 +1,14 @@
+import * as d3 from 'd3'
+import type { GeoProjection } from 'd3-geo'
+import type {
+  CountryDatum,
+  CountryFeature,
+  CountryKind,
+  DetailLevel,
+  LonLat,
+} from '../types'
+import { EARTH_RADIUS_KM } from '../constants'
+
 export const COUNTRY_ORDER = [304, 643, 124, 840, 76, 180, 36, 392]
 
 export const COUNTRY_META: Record<number, { name: string; area: number }> = {
@@ -45,6 +56,52 @@ export const normalizeId = (value: string | number) => {
   return stripped === '' ? '0' : stripped
 }
 
+export const getComputedArea = (feature: CountryFeature) =>
+  Math.round(d3.geoArea(feature) * EARTH_RADIUS_KM * EARTH_RADIUS_KM)
+
+type CountryDatumSource = {
+  id: string
+  name: string
+  reportedArea: number | null
+  kind?: CountryKind
+  parentId?: string | null
+  detail?: DetailLevel | null
+}
+
+// Shared by the country and admin-1 loaders so both kinds of shape enter the
+// same drag pipeline with identical centroid and area handling.
+export const createCountryDatum = (
+  feature: CountryFeature,
+  {
+    id,
+    name,
+    reportedArea,
+    kind = 'country',
+    parentId = null,
+    detail = null,
+  }: CountryDatumSource,
+  projection: GeoProjection
+): CountryDatum => {
+  const [lng, lat] = d3.geoCentroid(feature)
+  const projected = projection([lng, lat]) ?? [0, 0]
+  return {
+    id,
+    name,
+    kind,
+    parentId,
+    detail,
+    area: reportedArea ?? getComputedArea(feature),
+    areaSource: reportedArea !== null ? 'reported' : 'computed',
+    feature,
+    originalCentroid: [lng, lat] as LonLat,
+    globeCentroid: [lng, lat] as LonLat,
+    centroidScreen: [projected[0], projected[1]] as [number, number],
+    offset: { x: 0, y: 0 },
+    bearing: 0,
+    color: getCountryColor(id),
+  }
+}
+
 export const getCountryColor = (id: string) => {
   const numericId = Number(id)
   const index = Number.isFinite(numericId)
@@ -0,0 +1,100 @@
+import type { Vec3 } from '../types'
+
+export type EquatorSweepId = 'pole-loop' | 'spin' | 'roll' | 'keyframes'
+
+export type EquatorSweepOption = {
+  id: EquatorSweepId
+  label: string
+  description: string
+}
+
+export const EQUATOR_SWEEPS: EquatorSweepOption[] = [
+  {
+    id: 'pole-loop',
+    label: 'Pole loop',
+    description:
+      'The pole travels 360° around the great circle through it and the map centre.',
+  },
+  {
+    id: 'spin',
+    label: 'Spin',
+    description:
+      'The Earth turns once about its own axis beneath the tilted equator.',
+  },
+  {
+    id: 'roll',
+    label: 'Roll',
+    description: 'The equator turns once about the point at the map centre.',
+  },
+  {
+    id: 'keyframes',
+    label: 'My keyframes',
+    description: 'Eases through the rotations you saved, in order.',
+  },
+]
+
+// Quarter turns keep every step under 180°, so the shortest-path
+// interpolation below still goes the whole way round.
+const QUARTER_TURNS = [0, 90, 180, 270, 360]
+const SWEEP_AXES: Record<Exclude<EquatorSweepId, 'keyframes'>, number> = {
+  spin: 0,
+  'pole-loop': 1,
+  roll: 2,
+}
+
+export const createSweepKeyframes = (
+  id: Exclude<EquatorSweepId, 'keyframes'>,
+  start: Vec3
+): Vec3[] =>
+  QUARTER_TURNS.map((turn) => {
+    const keyframe: Vec3 = [...start]
+    keyframe[SWEEP_AXES[id]] += turn
+    return keyframe
+  })
+
+export const ANIMATION_FPS_OPTIONS = [10, 20, 25]
+export const ANIMATION_SCALE_OPTIONS = [0.5, 0.75, 1]
+export const ANIMATION_DURATION_MIN = 1
+export const ANIMATION_DURATION_MAX = 20
+export const DEFAULT_ANIMATION_DURATION = 6
+
+const getAngleStep = (from: number, to: number) =>
+  ((((to - from) % 360) + 540) % 360) - 180
+
+const easeInOut = (t: number) => t * t * (3 - 2 * t)
+
+// Rotation at `progress` (0-1) through the keyframes, with equal time per
+// segment and the shorter way round for each angle. Saved keyframes ease in
+// and out of each stop; a looping sweep runs at a constant rate.
+export const getKeyframeRotation = (
+  keyframes: Vec3[],
+  progress: number,
+  ease: boolean
+): Vec3 => {
+  if (keyframes.length === 1) {
+    return keyframes[0]
+  }
+  const position = Math.min(Math.max(progress, 0), 1) * (keyframes.length - 1)
+  const index = Math.min(Math.floor(position), keyframes.length - 2)
+  const local = ease ? easeInOut(position - index) : position - index
+  const from = keyframes[index]
+  const to = keyframes[index + 1]
+  return from.map(
+    (angle, axis) => angle + getAngleStep(angle, to[axis]) * local
+  ) as Vec3
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+// The first WebM flavour this browser can record, or null when MediaRecorder
+// or canvas capture is missing (Safari before 18, prerendering).
+export const getWebmMimeType = () => {
+  if (
+    typeof MediaRecorder === 'undefined' ||
+    typeof HTMLCanvasElement === 'undefined' ||
+    !('captureStream' in HTMLCanvasElement.prototype)
+  ) {
+    return null
+  }
+  return WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null
+}
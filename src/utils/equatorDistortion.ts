@@ -0,0 +1,133 @@
+import * as d3 from 'd3'
+import type { GeoProjection } from 'd3-geo'
+import type { CountryFeature, EquatorProjectionId, LonLat, Vec3 } from '../types'
+import { wrapLongitude } from './geo'
+import { createEquatorProjection, getLocalDistortion } from './projections'
+import type { ProjectionDistortion } from './projections'
+
+const DEG_TO_RAD = Math.PI / 180
+const SAMPLE_GRID = 8
+// Penalty for sample points a projection cannot draw, such as Mercator's
+// poles, so the search still walks away from them.
+const UNPROJECTABLE_ERROR = 100
+const OPTIMIZER_STEPS = [16, 8, 4, 2, 1, 0.5, 0.25]
+const OPTIMIZER_ROLLS = [0, 45, 90, 135]
+const OPTIMIZER_MAX_MOVES = 40
+
+// Mean area scale factor over a whole country: its area on the map against
+// its true area at the projection's nominal scale. Returns null for shapes
+// with no area or clipped away entirely.
+export const getCountryArealScale = (
+  projection: GeoProjection,
+  feature: CountryFeature
+) => {
+  const trueArea = d3.geoArea(feature)
+  if (trueArea <= 0 || trueArea > 2 * Math.PI) {
+    return null
+  }
+  const scale = projection.scale()
+  const projected = d3.geoPath(projection).area(feature)
+  return projected > 0 ? projected / (trueArea * scale * scale) : null
+}
+
+// Points on a grid over the country's bounding box that fall inside it, so
+// large countries weigh their whole extent rather than just the centroid.
+const getCountrySamples = (feature: CountryFeature): LonLat[] => {
+  const [[west, south], [east, north]] = d3.geoBounds(feature)
+  const width = east >= west ? east - west : east + 360 - west
+  const samples: LonLat[] = []
+  for (let i = 0; i < SAMPLE_GRID; i += 1) {
+    for (let j = 0; j < SAMPLE_GRID; j += 1) {
+      const point: LonLat = [
+        wrapLongitude(west + ((i + 0.5) / SAMPLE_GRID) * width),
+        south + ((j + 0.5) / SAMPLE_GRID) * (north - south),
+      ]
+      if (d3.geoContains(feature, point)) {
+        samples.push(point)
+      }
+    }
+  }
+  return samples.length > 0 ? samples : [d3.geoCentroid(feature) as LonLat]
+}
+
+// Airy–Kavrayskiy error: the squared logs of both principal scales, which
+// counts growth, shrinkage and shearing alike. ln a and ln b follow from the
+// area scale ab and the angular deformation 2·asin((a - b) / (a + b)).
+const getDistortionError = ({ areal, angular }: ProjectionDistortion) => {
+  const spread = Math.sin((angular * DEG_TO_RAD) / 2)
+  const logShape = Math.log((1 + spread) / Math.max(1 - spread, 1e-9))
+  const logArea = Math.log(areal)
+  return (logArea * logArea + logShape * logShape) / 2
+}
+
+// Hands the main thread back between step sizes so a large country does not
+// freeze the page for the whole search.
+const yieldToBrowser = () =>
+  new Promise<void>((resolve) => {
+    setTimeout(resolve, 0)
+  })
+
+const descend = async (evaluate: (rotation: Vec3) => number, start: Vec3) => {
+  let current = start
+  let currentError = evaluate(start)
+  for (const step of OPTIMIZER_STEPS) {
+    await yieldToBrowser()
+    for (let move = 0; move < OPTIMIZER_MAX_MOVES; move += 1) {
+      let improved = false
+      for (let axis = 0; axis < 3; axis += 1) {
+        for (const sign of [1, -1]) {
+          const next: Vec3 = [...current]
+          next[axis] += sign * step
+          const error = evaluate(next)
+          if (error < currentError) {
+            current = next
+            currentError = error
+            improved = true
+          }
+        }
+      }
+      if (!improved) {
+        break
+      }
+    }
+  }
+  return { rotation: current, error: currentError }
+}
+
+// Searches for the rotation that gives `feature` the least mean distortion
+// under the chosen projection, by pattern search from the current rotation
+// and from the country's centroid at a few rolls.
+export const findLeastDistortedRotation = async (
+  id: EquatorProjectionId,
+  feature: CountryFeature,
+  current: Vec3
+): Promise<Vec3> => {
+  const projection = createEquatorProjection(id)
+  const samples = getCountrySamples(feature)
+  const evaluate = (rotation: Vec3) => {
+    projection.rotate(rotation)
+    const total = samples.reduce((sum, point) => {
+      const distortion = getLocalDistortion(projection, point)
+      return (
+        sum +
+        (distortion && Number.isFinite(distortion.areal) && distortion.areal > 0
+          ? getDistortionError(distortion)
+          : UNPROJECTABLE_ERROR)
+      )
+    }, 0)
+    return total / samples.length
+  }
+  const [lon, lat] = d3.geoCentroid(feature)
+  const starts: Vec3[] = [
+    current,
+    ...OPTIMIZER_ROLLS.map((roll): Vec3 => [-lon, -lat, roll]),
+  ]
+  let best = await descend(evaluate, starts[0])
+  for (const start of starts.slice(1)) {
+    const result = await descend(evaluate, start)
+    if (result.error < best.error) {
+      best = result
+    }
+  }
+  return best.rotation.map(wrapLongitude) as Vec3
+}
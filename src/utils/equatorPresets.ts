@@ -0,0 +1,76 @@
+import type { LonLat, Vec3 } from '../types'
+import {
+  getEquatorThroughPoints,
+  getFrameRotation,
+  getPoleRotation,
+} from './geo'
+
+export type EquatorCity = {
+  id: string
+  name: string
+  lonLat: LonLat
+}
+
+export const EQUATOR_CITIES: EquatorCity[] = [
+  { id: 'london', name: 'London', lonLat: [-0.1276, 51.5072] },
+  { id: 'new-york', name: 'New York', lonLat: [-74.006, 40.7128] },
+  { id: 'tokyo', name: 'Tokyo', lonLat: [139.6917, 35.6895] },
+  { id: 'beijing', name: 'Beijing', lonLat: [116.4074, 39.9042] },
+  { id: 'delhi', name: 'Delhi', lonLat: [77.209, 28.6139] },
+  { id: 'moscow', name: 'Moscow', lonLat: [37.6173, 55.7558] },
+  { id: 'cairo', name: 'Cairo', lonLat: [31.2357, 30.0444] },
+  { id: 'cape-town', name: 'Cape Town', lonLat: [18.4241, -33.9249] },
+  { id: 'rio', name: 'Rio de Janeiro', lonLat: [-43.1729, -22.9068] },
+  { id: 'quito', name: 'Quito', lonLat: [-78.4678, -0.1807] },
+  { id: 'singapore', name: 'Singapore', lonLat: [103.8198, 1.3521] },
+  { id: 'sydney', name: 'Sydney', lonLat: [151.2093, -33.8688] },
+  { id: 'reykjavik', name: 'Reykjavik', lonLat: [-21.9426, 64.1466] },
+]
+
+export const getEquatorCity = (id: string) =>
+  EQUATOR_CITIES.find((city) => city.id === id) ?? EQUATOR_CITIES[0]
+
+export type EquatorPreset = {
+  id: string
+  label: string
+  rotation: Vec3
+}
+
+export const DEFAULT_EQUATOR_ROTATION: Vec3 = [0, 0, 0]
+
+export const EQUATOR_PRESETS: EquatorPreset[] = [
+  { id: 'standard', label: 'Standard equator', rotation: DEFAULT_EQUATOR_ROTATION },
+  {
+    id: 'through-poles',
+    label: 'Equator through the poles',
+    rotation: getFrameRotation([0, 0], [90, 0]),
+  },
+  {
+    id: 'pole-london',
+    label: 'Pole at London',
+    rotation: getPoleRotation(getEquatorCity('london').lonLat),
+  },
+  {
+    id: 'pole-quito',
+    label: 'Pole at Quito',
+    rotation: getPoleRotation(getEquatorCity('quito').lonLat),
+  },
+  {
+    id: 'new-york-tokyo',
+    label: 'Equator through New York and Tokyo',
+    rotation:
+      getEquatorThroughPoints(
+        getEquatorCity('new-york').lonLat,
+        getEquatorCity('tokyo').lonLat
+      ) ?? DEFAULT_EQUATOR_ROTATION,
+  },
+]
+
+const ROTATION_TOLERANCE = 0.01
+
+const getAngleGap = (a: number, b: number) =>
+  Math.abs((((a - b) % 360) + 540) % 360 - 180)
+
+// Compares rotations angle by angle, treating -180° and 180° as the same.
+export const isSameRotation = (a: Vec3, b: Vec3) =>
+  a.every((angle, index) => getAngleGap(angle, b[index]) < ROTATION_TOLERANCE)
@@ -0,0 +1,401 @@
+// Connectivity-aware flooding for the sea-level simulator. Terrarium DEM tiles
+// are stitched into a mosaic and flood-filled from the ocean, so basins below
+// the target level only flood once they connect to it.
+
+// Rejects when a tile cannot be fetched or decoded, so a gap in the data is
+// reported rather than drawn as dry land.
+export type FloodTileLoader = (
+  z: number,
+  x: number,
+  y: number
+) => Promise<Float32Array>
+
+export type FloodBounds = {
+  west: number
+  south: number
+  east: number
+  north: number
+}
+
+export type FloodOverlay = {
+  url: string
+  // Top-left, top-right, bottom-right, bottom-left, as maplibre image
+  // sources expect them.
+  coordinates: [
+    [number, number],
+    [number, number],
+    [number, number],
+    [number, number],
+  ]
+}
+
+const TILE_SIZE = 256
+const WORLD_ZOOM = 2
+const MAX_DETAIL_ZOOM = 10
+const MAX_VIEWPORT_TILES = 16
+const MAX_MERCATOR_LATITUDE = 85.0511
+// World floods kept per sea level, so panning at a fixed level reuses one.
+const WORLD_FLOOD_CACHE_SIZE = 8
+const FLOOD_COLOR: [number, number, number, number] = [28, 121, 255, 168]
+
+// Open water in every ocean and in the marginal seas whose straits are too
+// narrow to survive the coarse world pass (Bosporus, Øresund, Hormuz...).
+const OCEAN_SEED_POINTS: [number, number][] = [
+  [-150, 0],
+  [170, 30],
+  [-120, -40],
+  [-30, 0],
+  [-40, 35],
+  [-20, -35],
+  [75, -20],
+  [30, 75],
+  [-150, 78],
+  [0, -60],
+  [3, 56],
+  [18, 35],
+  [34, 43.3],
+  [28, 40.75],
+  [19.5, 57],
+  [38, 21],
+  [51, 27],
+  [-85, 60],
+  [135, 40],
+  [150, 55],
+  [-175, 58],
+  [-90, 25],
+  [-75, 15],
+  [114, 14],
+  [65, 15],
+  [88, 15],
+  [160, -40],
+]
+
+const TERRARIUM_OFFSET = 32768
+
+// Terrarium packs metres as (R·256 + G + B/256) - 32768.
+const decodeTerrarium = (data: Uint8ClampedArray) => {
+  const elevations = new Float32Array(data.length / 4)
+  for (let i = 0; i < elevations.length; i += 1) {
+    elevations[i] =
+      data[i * 4] * 256 +
+      data[i * 4 + 1] +
+      data[i * 4 + 2] / 256 -
+      TERRARIUM_OFFSET
+  }
+  return elevations
+}
+
+const loadTerrariumTile = (url: string) =>
+  new Promise<Float32Array>((resolve, reject) => {
+    const image = new Image()
+    image.crossOrigin = 'anonymous'
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = TILE_SIZE
+      canvas.height = TILE_SIZE
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })
+      if (!ctx) {
+        reject(new Error('Could not decode an elevation tile.'))
+        return
+      }
+      ctx.drawImage(image, 0, 0, TILE_SIZE, TILE_SIZE)
+      resolve(decodeTerrarium(ctx.getImageData(0, 0, TILE_SIZE, TILE_SIZE).data))
+    }
+    image.onerror = () => reject(new Error(`Could not load elevation tile ${url}.`))
+    image.src = url
+  })
+
+// Loads tiles from a `{z}/{x}/{y}` template and keeps the most recent ones,
+// so panning and moving the slider do not refetch what is already on screen.
+// Failed loads are dropped from the cache and retried on the next request.
+export const createTerrariumTileLoader = (
+  template: string,
+  cacheSize: number
+): FloodTileLoader => {
+  const cache = new Map<string, Promise<Float32Array>>()
+  return (z, x, y) => {
+    const key = `${z}/${x}/${y}`
+    const cached = cache.get(key)
+    if (cached) {
+      cache.delete(key)
+      cache.set(key, cached)
+      return cached
+    }
+    const tile = loadTerrariumTile(
+      template
+        .replace('{z}', `${z}`)
+        .replace('{x}', `${x}`)
+        .replace('{y}', `${y}`)
+    )
+    cache.set(key, tile)
+    tile.catch(() => {
+      if (cache.get(key) === tile) {
+        cache.delete(key)
+      }
+    })
+    if (cache.size > cacheSize) {
+      const oldest = cache.keys().next().value
+      if (oldest !== undefined) {
+        cache.delete(oldest)
+      }
+    }
+    return tile
+  }
+}
+
+const lonToTileX = (lon: number, z: number) => ((lon + 180) / 360) * 2 ** z
+
+const latToTileY = (lat: number, z: number) => {
+  const phi = (lat * Math.PI) / 180
+  return ((1 - Math.log(Math.tan(phi) + 1 / Math.cos(phi)) / Math.PI) / 2) * 2 ** z
+}
+
+const tileXToLon = (x: number, z: number) => (x / 2 ** z) * 360 - 180
+
+const tileYToLat = (y: number, z: number) =>
+  (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / 2 ** z))) * 180) / Math.PI
+
+type TileRange = { z: number; x0: number; y0: number; x1: number; y1: number }
+
+type Mosaic = TileRange & {
+  width: number
+  height: number
+  elevations: Float32Array
+}
+
+const getTileRange = (bounds: FloodBounds, z: number): TileRange => {
+  const last = 2 ** z - 1
+  const clampTile = (value: number) => Math.min(Math.max(Math.floor(value), 0), last)
+  const north = Math.min(bounds.north, MAX_MERCATOR_LATITUDE)
+  const south = Math.max(bounds.south, -MAX_MERCATOR_LATITUDE)
+  return {
+    z,
+    x0: clampTile(lonToTileX(Math.max(bounds.west, -180), z)),
+    x1: clampTile(lonToTileX(Math.min(bounds.east, 180), z)),
+    y0: clampTile(latToTileY(north, z)),
+    y1: clampTile(latToTileY(south, z)),
+  }
+}
+
+const countTiles = ({ x0, y0, x1, y1 }: TileRange) =>
+  (x1 - x0 + 1) * (y1 - y0 + 1)
+
+const loadMosaic = async (
+  range: TileRange,
+  loadTile: FloodTileLoader
+): Promise<Mosaic> => {
+  const columns = range.x1 - range.x0 + 1
+  const rows = range.y1 - range.y0 + 1
+  const width = columns * TILE_SIZE
+  const height = rows * TILE_SIZE
+  const elevations = new Float32Array(width * height)
+  const requests: Promise<void>[] = []
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      requests.push(
+        loadTile(range.z, range.x0 + column, range.y0 + row).then((tile) => {
+          for (let y = 0; y < TILE_SIZE; y += 1) {
+            elevations.set(
+              tile.subarray(y * TILE_SIZE, (y + 1) * TILE_SIZE),
+              (row * TILE_SIZE + y) * width + column * TILE_SIZE
+            )
+          }
+        })
+      )
+    }
+  }
+  await Promise.all(requests)
+  return { ...range, width, height, elevations }
+}
+
+// Four-connected fill: water does not leak through pixels that only touch at
+// a corner, which keeps thin ridges and dikes watertight.
+const floodFill = (
+  { width, height, elevations }: Mosaic,
+  level: number,
+  seeds: number[]
+) => {
+  const flooded = new Uint8Array(width * height)
+  const queue = new Int32Array(width * height)
+  let head = 0
+  let tail = 0
+  const visit = (index: number) => {
+    if (!flooded[index] && elevations[index] < level) {
+      flooded[index] = 1
+      queue[tail] = index
+      tail += 1
+    }
+  }
+  seeds.forEach(visit)
+  while (head < tail) {
+    const index = queue[head]
+    head += 1
+    const x = index % width
+    if (x > 0) visit(index - 1)
+    if (x < width - 1) visit(index + 1)
+    if (index >= width) visit(index - width)
+    if (index < width * (height - 1)) visit(index + width)
+  }
+  return flooded
+}
+
+const createOverlay = (mosaic: Mosaic, flooded: Uint8Array): FloodOverlay | null => {
+  const canvas = document.createElement('canvas')
+  canvas.width = mosaic.width
+  canvas.height = mosaic.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    return null
+  }
+  const image = ctx.createImageData(mosaic.width, mosaic.height)
+  flooded.forEach((isFlooded, index) => {
+    if (isFlooded) {
+      image.data.set(FLOOD_COLOR, index * 4)
+    }
+  })
+  ctx.putImageData(image, 0, 0)
+  const west = tileXToLon(mosaic.x0, mosaic.z)
+  const east = tileXToLon(mosaic.x1 + 1, mosaic.z)
+  const north = tileYToLat(mosaic.y0, mosaic.z)
+  const south = tileYToLat(mosaic.y1 + 1, mosaic.z)
+  return {
+    url: canvas.toDataURL('image/png'),
+    coordinates: [
+      [west, north],
+      [east, north],
+      [east, south],
+      [west, south],
+    ],
+  }
+}
+
+// True for flooded coarse cells whose eight neighbours flooded too: open
+// water, as opposed to a coastal cell that also holds land behind a ridge.
+const isOpenWater = (flooded: Uint8Array, width: number, height: number, index: number) => {
+  const x = index % width
+  const y = Math.floor(index / width)
+  for (let dy = -1; dy <= 1; dy += 1) {
+    for (let dx = -1; dx <= 1; dx += 1) {
+      const nx = (x + dx + width) % width
+      const ny = y + dy
+      if (ny >= 0 && ny < height && !flooded[ny * width + nx]) {
+        return false
+      }
+    }
+  }
+  return true
+}
+
+export type ConnectedFloodCalculator = (
+  bounds: FloodBounds,
+  mapZoom: number,
+  level: number
+) => Promise<FloodOverlay | null>
+
+// Floods the whole world coarsely from the seed points, then refills the
+// viewport at the finest zoom that keeps the mosaic small. Inside the view the
+// fill is seeded only from open water, so the four-connected fill decides how
+// far the sea reaches into coastal cells; along the edges, where the water may
+// come from outside the view, every flooded coarse cell seeds it. The world
+// mosaic and its flood for each recent level are kept, so panning only
+// refills the viewport.
+export const createConnectedFlood = (
+  loadTile: FloodTileLoader
+): ConnectedFloodCalculator => {
+  const worldLast = 2 ** WORLD_ZOOM - 1
+  const worldRange: TileRange = {
+    z: WORLD_ZOOM,
+    x0: 0,
+    y0: 0,
+    x1: worldLast,
+    y1: worldLast,
+  }
+  let worldMosaic: Promise<Mosaic> | null = null
+  const worldFloods = new Map<number, Uint8Array>()
+
+  const loadWorld = () => {
+    if (!worldMosaic) {
+      const request = loadMosaic(worldRange, loadTile)
+      worldMosaic = request
+      request.catch(() => {
+        if (worldMosaic === request) {
+          worldMosaic = null
+        }
+      })
+    }
+    return worldMosaic
+  }
+
+  const getWorldFlood = async (level: number) => {
+    const world = await loadWorld()
+    let flooded = worldFloods.get(level)
+    if (flooded) {
+      worldFloods.delete(level)
+    } else {
+      const seeds = OCEAN_SEED_POINTS.map(([lon, lat]) => {
+        const x = Math.floor(lonToTileX(lon, WORLD_ZOOM) * TILE_SIZE)
+        const y = Math.floor(latToTileY(lat, WORLD_ZOOM) * TILE_SIZE)
+        return y * world.width + x
+      })
+      flooded = floodFill(world, level, seeds)
+    }
+    worldFloods.set(level, flooded)
+    if (worldFloods.size > WORLD_FLOOD_CACHE_SIZE) {
+      const oldest = worldFloods.keys().next().value
+      if (oldest !== undefined) {
+        worldFloods.delete(oldest)
+      }
+    }
+    return { world, flooded }
+  }
+
+  return async (bounds, mapZoom, level) => {
+    const { world, flooded: worldFlooded } = await getWorldFlood(level)
+
+    let z = Math.min(Math.max(Math.floor(mapZoom) + 1, WORLD_ZOOM), MAX_DETAIL_ZOOM)
+    let range = getTileRange(bounds, z)
+    while (z > WORLD_ZOOM && countTiles(range) > MAX_VIEWPORT_TILES) {
+      z -= 1
+      range = getTileRange(bounds, z)
+    }
+    const detail = await loadMosaic(range, loadTile)
+    const shift = 2 ** (z - WORLD_ZOOM)
+    const openWater = new Map<number, boolean>()
+    const seeds: number[] = []
+    for (let y = 0; y < detail.height; y += 1) {
+      const worldY = Math.floor((range.y0 * TILE_SIZE + y) / shift)
+      const isEdgeRow = y === 0 || y === detail.height - 1
+      for (let x = 0; x < detail.width; x += 1) {
+        const worldX = Math.floor((range.x0 * TILE_SIZE + x) / shift)
+        const worldIndex = worldY * world.width + worldX
+        if (!worldFlooded[worldIndex]) {
+          continue
+        }
+        if (isEdgeRow || x === 0 || x === detail.width - 1) {
+          seeds.push(y * detail.width + x)
+          continue
+        }
+        let isOpen = openWater.get(worldIndex)
+        if (isOpen === undefined) {
+          isOpen = isOpenWater(worldFlooded, world.width, world.height, worldIndex)
+          openWater.set(worldIndex, isOpen)
+        }
+        if (isOpen) {
+          seeds.push(y * detail.width + x)
+        }
+      }
+    }
+    // Seas too narrow to hold an open-water cell still start from their seed
+    // point when it is in view.
+    const west = range.x0 * TILE_SIZE
+    const north = range.y0 * TILE_SIZE
+    OCEAN_SEED_POINTS.forEach(([lon, lat]) => {
+      const x = Math.floor(lonToTileX(lon, z) * TILE_SIZE) - west
+      const y = Math.floor(latToTileY(lat, z) * TILE_SIZE) - north
+      if (x >= 0 && x < detail.width && y >= 0 && y < detail.height) {
+        seeds.push(y * detail.width + x)
+      }
+    })
+    return createOverlay(detail, floodFill(detail, level, seeds))
+  }
+}
@@ -16,11 +16,24 @@ export const formatLongitude = (lon: number) => {
   return `${absolute.toFixed(1)}deg${direction}`
 }
 
+// Custom bodies can be far smaller than any built-in one, so tiny ratios keep
+// two significant figures instead of rounding to 0.00x.
 export const formatPlanetRatio = (ratio: number) =>
-  `${ratio.toFixed(ratio >= 1 ? 1 : 2)}x Earth`
+  `${
+    ratio >= 1
+      ? ratio.toFixed(1)
+      : ratio >= 0.1
+        ? ratio.toFixed(2)
+        : Number(ratio.toPrecision(2))
+  }x Earth`
 
-export const formatScale = (scale: number) => `${Math.round(scale * 100)}%`
+export const formatAreaRatio = (ratio: number) => {
+  if (ratio >= 0.995 && ratio <= 1.005) {
+    return 'same size'
+  }
+  return ratio > 1
+    ? `${ratio.toFixed(ratio >= 10 ? 0 : 1)}x larger`
+    : `${(1 / ratio).toFixed(1 / ratio >= 10 ? 0 : 1)}x smaller`
+}
 
-export const getMercatorScale = (originalLat: number, currentLat: number) =>
-  Math.cos((originalLat * Math.PI) / 180) /
-  Math.cos((currentLat * Math.PI) / 180)
+export const formatScale = (scale: number) => `${Math.round(scale * 100)}%`
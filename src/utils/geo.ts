@@ -9,6 +9,9 @@ const ROTATION_EPSILON = 1e-6
 export const clamp = (value: number, min: number, max: number) =>
   Math.min(Math.max(value, min), max)
 
+export const wrapLongitude = (lon: number) =>
+  ((((lon + 180) % 360) + 360) % 360) - 180
+
 const lonLatToVector = ([lon, lat]: LonLat): Vec3 => {
   const lambda = lon * DEG_TO_RAD
   const phi = lat * DEG_TO_RAD
@@ -43,6 +46,27 @@ const normalize = (value: Vec3): Vec3 => {
   return [value[0] / length, value[1] / length, value[2] / length]
 }
 
+const identity = (coordinate: LonLat) => coordinate
+
+// Rodrigues rotation of positions on the unit sphere about a unit axis.
+const createAxisRotation = (axis: Vec3, angle: number) => {
+  const sinAngle = Math.sin(angle)
+  const cosAngle = Math.cos(angle)
+  const oneMinusCos = 1 - cosAngle
+
+  return ([lon, lat]: LonLat): LonLat => {
+    const vec = lonLatToVector([lon, lat])
+    const crossAxis = cross(axis, vec)
+    const dotAxis = dot(axis, vec)
+    const rotated: Vec3 = [
+      vec[0] * cosAngle + crossAxis[0] * sinAngle + axis[0] * dotAxis * oneMinusCos,
+      vec[1] * cosAngle + crossAxis[1] * sinAngle + axis[1] * dotAxis * oneMinusCos,
+      vec[2] * cosAngle + crossAxis[2] * sinAngle + axis[2] * dotAxis * oneMinusCos,
+    ]
+    return vectorToLonLat(rotated)
+  }
+}
+
 // Rotate coordinates on the sphere so the feature centroid moves to the drag target.
 export const createSphericalRotation = (from: LonLat, to: LonLat) => {
   const fromVec = lonLatToVector(from)
@@ -50,7 +74,7 @@ export const createSphericalRotation = (from: LonLat, to: LonLat) => {
   const rawDot = clamp(dot(fromVec, toVec), -1, 1)
   const angle = Math.acos(rawDot)
   if (angle < ROTATION_EPSILON) {
-    return (coordinate: LonLat) => coordinate
+    return identity
   }
 
   let axis = cross(fromVec, toVec)
@@ -59,23 +83,102 @@ export const createSphericalRotation = (from: LonLat, to: LonLat) => {
       Math.abs(fromVec[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0]
     axis = cross(fromVec, fallback)
   }
-  axis = normalize(axis)
+  return createAxisRotation(normalize(axis), angle)
+}
 
-  const sinAngle = Math.sin(angle)
-  const cosAngle = Math.cos(angle)
-  const oneMinusCos = 1 - cosAngle
+export const normalizeBearing = (bearing: number) =>
+  ((bearing % 360) + 360) % 360
 
-  return ([lon, lat]: LonLat): LonLat => {
-    const vec = lonLatToVector([lon, lat])
-    const crossAxis = cross(axis, vec)
-    const dotAxis = dot(axis, vec)
-    const rotated: Vec3 = [
-      vec[0] * cosAngle + crossAxis[0] * sinAngle + axis[0] * dotAxis * oneMinusCos,
-      vec[1] * cosAngle + crossAxis[1] * sinAngle + axis[1] * dotAxis * oneMinusCos,
-      vec[2] * cosAngle + crossAxis[2] * sinAngle + axis[2] * dotAxis * oneMinusCos,
-    ]
-    return vectorToLonLat(rotated)
+// Spins coordinates about the axis through `center`; positive bearings turn
+// the shape clockwise as seen from above, like a compass heading.
+export const createBearingRotation = (center: LonLat, bearing: number) => {
+  const angle = normalizeBearing(bearing) * DEG_TO_RAD
+  if (angle < ROTATION_EPSILON || 2 * Math.PI - angle < ROTATION_EPSILON) {
+    return identity
+  }
+  return createAxisRotation(lonLatToVector(center), -angle)
+}
+
+// Turns a country about its own centroid first, then carries it to `to`, so
+// the bearing survives every move on the map and the globe.
+export const createCountryRotation = (
+  from: LonLat,
+  to: LonLat,
+  bearing = 0
+) => {
+  const spin = createBearingRotation(from, bearing)
+  const move = createSphericalRotation(from, to)
+  return (coordinate: LonLat) => move(spin(coordinate))
+}
+
+// Initial great-circle heading from `from` towards `to`, in degrees [0, 360).
+export const getInitialBearing = ([lon1, lat1]: LonLat, [lon2, lat2]: LonLat) => {
+  const phi1 = lat1 * DEG_TO_RAD
+  const phi2 = lat2 * DEG_TO_RAD
+  const deltaLambda = (lon2 - lon1) * DEG_TO_RAD
+  const y = Math.sin(deltaLambda) * Math.cos(phi2)
+  const x =
+    Math.cos(phi1) * Math.sin(phi2) -
+    Math.sin(phi1) * Math.cos(phi2) * Math.cos(deltaLambda)
+  return normalizeBearing(Math.atan2(y, x) * RAD_TO_DEG)
+}
+
+// Point reached by travelling `distance` degrees of arc along `bearing`.
+export const getDestination = (
+  [lon, lat]: LonLat,
+  bearing: number,
+  distance: number
+): LonLat => {
+  const phi1 = lat * DEG_TO_RAD
+  const theta = bearing * DEG_TO_RAD
+  const delta = distance * DEG_TO_RAD
+  const sinPhi2 =
+    Math.sin(phi1) * Math.cos(delta) +
+    Math.cos(phi1) * Math.sin(delta) * Math.cos(theta)
+  const phi2 = Math.asin(clamp(sinPhi2, -1, 1))
+  const lambda2 =
+    lon * DEG_TO_RAD +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+      Math.cos(delta) - Math.sin(phi1) * sinPhi2
+    )
+  return [wrapLongitude(lambda2 * RAD_TO_DEG), phi2 * RAD_TO_DEG]
+}
+
+// d3 rotation angles [λ, φ, γ] that bring `center` to the middle of a
+// projection and `pole`, 90° away from it, to the top. λ and φ centre the
+// point; the roll γ then stands the pole upright.
+export const getFrameRotation = (center: LonLat, pole: LonLat): Vec3 => {
+  const lambda = -center[0] * DEG_TO_RAD
+  const phi = -center[1] * DEG_TO_RAD
+  const [x, y, z] = lonLatToVector(pole)
+  const x1 = x * Math.cos(lambda) - y * Math.sin(lambda)
+  const y1 = x * Math.sin(lambda) + y * Math.cos(lambda)
+  const z1 = z * Math.cos(phi) + x1 * Math.sin(phi)
+  return [-center[0], -center[1], Math.atan2(y1, z1) * RAD_TO_DEG]
+}
+
+// Rotation whose north pole sits at `pole`, centred on the nearest point of
+// the new equator along the pole's meridian.
+export const getPoleRotation = (pole: LonLat): Vec3 =>
+  getFrameRotation(getDestination(pole, pole[1] >= 0 ? 180 : 0, 90), pole)
+
+// Rotation whose equator runs through both points, centred between them.
+// Returns null when the points coincide or are antipodal, since then no
+// single great circle is defined.
+export const getEquatorThroughPoints = (a: LonLat, b: LonLat): Vec3 | null => {
+  const aVec = lonLatToVector(a)
+  const bVec = lonLatToVector(b)
+  const pole = normalize(cross(aVec, bVec))
+  if (dot(pole, pole) < ROTATION_EPSILON) {
+    return null
   }
+  const center = normalize([
+    aVec[0] + bVec[0],
+    aVec[1] + bVec[1],
+    aVec[2] + bVec[2],
+  ])
+  return getFrameRotation(vectorToLonLat(center), vectorToLonLat(pole))
 }
 
 export const rotateGeometry = (
@@ -0,0 +1,180 @@
+// A small GIF89a encoder for the Equator Lab animations. Every frame gets its
+// own 256-colour palette, picked by popularity from a 15-bit histogram, which
+// suits flat map colours far better than a fixed web palette.
+
+const PALETTE_SIZE = 256
+const MIN_CODE_SIZE = 8
+const MAX_CODE = 4096
+const SUB_BLOCK_SIZE = 255
+
+const writeWord = (bytes: number[], value: number) => {
+  bytes.push(value & 0xff, (value >> 8) & 0xff)
+}
+
+const toColorKey = (r: number, g: number, b: number) =>
+  ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+
+const quantize = (data: Uint8ClampedArray) => {
+  const counts = new Uint32Array(1 << 15)
+  for (let i = 0; i < data.length; i += 4) {
+    counts[toColorKey(data[i], data[i + 1], data[i + 2])] += 1
+  }
+  const keys: number[] = []
+  counts.forEach((count, key) => {
+    if (count > 0) {
+      keys.push(key)
+    }
+  })
+  keys.sort((a, b) => counts[b] - counts[a])
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3)
+  const lookup = new Int16Array(1 << 15).fill(-1)
+  const used = Math.min(PALETTE_SIZE, keys.length)
+  for (let i = 0; i < used; i += 1) {
+    const key = keys[i]
+    palette[i * 3] = ((key >> 10) << 3) | 4
+    palette[i * 3 + 1] = (((key >> 5) & 31) << 3) | 4
+    palette[i * 3 + 2] = ((key & 31) << 3) | 4
+    lookup[key] = i
+  }
+
+  const findNearest = (key: number) => {
+    const r = ((key >> 10) << 3) | 4
+    const g = (((key >> 5) & 31) << 3) | 4
+    const b = ((key & 31) << 3) | 4
+    let best = 0
+    let bestDistance = Infinity
+    for (let i = 0; i < used; i += 1) {
+      const dr = palette[i * 3] - r
+      const dg = palette[i * 3 + 1] - g
+      const db = palette[i * 3 + 2] - b
+      const distance = dr * dr + dg * dg + db * db
+      if (distance < bestDistance) {
+        best = i
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+
+  const indices = new Uint8Array(data.length / 4)
+  for (let i = 0; i < indices.length; i += 1) {
+    const key = toColorKey(data[i * 4], data[i * 4 + 1], data[i * 4 + 2])
+    if (lookup[key] < 0) {
+      lookup[key] = findNearest(key)
+    }
+    indices[i] = lookup[key]
+  }
+  return { palette, indices }
+}
+
+// Variable-width LZW as the GIF spec wants it: codes start one bit wider than
+// the palette index and grow to 12 bits, with a clear code once the table is
+// full.
+const compress = (indices: Uint8Array) => {
+  const clearCode = 1 << MIN_CODE_SIZE
+  const endCode = clearCode + 1
+  const output: number[] = []
+  let codeSize = MIN_CODE_SIZE + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+  let buffer = 0
+  let bufferBits = 0
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits
+    bufferBits += codeSize
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff)
+      buffer >>= 8
+      bufferBits -= 8
+    }
+  }
+
+  emit(clearCode)
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i += 1) {
+    const index = indices[i]
+    const key = (prefix << 8) | index
+    const code = table.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+    emit(prefix)
+    if (nextCode === MAX_CODE) {
+      emit(clearCode)
+      codeSize = MIN_CODE_SIZE + 1
+      nextCode = endCode + 1
+      table = new Map()
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize += 1
+      }
+      table.set(key, nextCode)
+      nextCode += 1
+    }
+    prefix = index
+  }
+  emit(prefix)
+  emit(endCode)
+  if (bufferBits > 0) {
+    output.push(buffer & 0xff)
+  }
+  return output
+}
+
+export type GifEncoder = {
+  addFrame: (data: Uint8ClampedArray) => void
+  finish: () => Blob
+}
+
+// Frames are RGBA pixel data of the full `width` x `height`. The animation
+// loops forever; `delay` is in hundredths of a second, the unit GIF uses.
+export const createGifEncoder = (
+  width: number,
+  height: number,
+  delay: number
+): GifEncoder => {
+  const parts: BlobPart[] = []
+  const header: number[] = [...'GIF89a'].map((char) => char.charCodeAt(0))
+  writeWord(header, width)
+  writeWord(header, height)
+  header.push(0, 0, 0)
+  // NETSCAPE2.0 application extension: repeat forever.
+  header.push(0x21, 0xff, 0x0b)
+  header.push(...[...'NETSCAPE2.0'].map((char) => char.charCodeAt(0)))
+  header.push(0x03, 0x01, 0x00, 0x00, 0x00)
+  parts.push(Uint8Array.from(header))
+
+  const addFrame = (data: Uint8ClampedArray) => {
+    const { palette, indices } = quantize(data)
+    const bytes: number[] = [0x21, 0xf9, 0x04, 0x00]
+    writeWord(bytes, delay)
+    bytes.push(0x00, 0x00)
+    bytes.push(0x2c)
+    writeWord(bytes, 0)
+    writeWord(bytes, 0)
+    writeWord(bytes, width)
+    writeWord(bytes, height)
+    // Local colour table of 2^(7 + 1) entries.
+    bytes.push(0x80 | 0x07)
+    parts.push(Uint8Array.from(bytes), palette)
+
+    const compressed = compress(indices)
+    const blocks: number[] = [MIN_CODE_SIZE]
+    for (let i = 0; i < compressed.length; i += SUB_BLOCK_SIZE) {
+      const block = compressed.slice(i, i + SUB_BLOCK_SIZE)
+      blocks.push(block.length, ...block)
+    }
+    blocks.push(0x00)
+    parts.push(Uint8Array.from(blocks))
+  }
+
+  const finish = () => {
+    parts.push(Uint8Array.from([0x3b]))
+    return new Blob(parts, { type: 'image/gif' })
+  }
+
+  return { addFrame, finish }
+}
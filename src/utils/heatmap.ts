@@ -0,0 +1,56 @@
+import * as d3 from 'd3'
+
+// Area scale factors from an eighth to 32x, with true size in the middle.
+export const HEATMAP_DOMAIN: [number, number, number] = [0.125, 1, 32]
+export const HEATMAP_LEGEND_TICKS = [0.125, 0.5, 1, 2, 8, 32]
+export const HEATMAP_OPACITY = 0.55
+const HEATMAP_CELL_SIZE = 5
+
+export const heatmapColor = d3
+  .scaleDivergingLog<string>()
+  .domain(HEATMAP_DOMAIN)
+  .interpolator((t) => d3.interpolateRdYlBu(1 - t))
+  .clamp(true)
+
+export const formatHeatmapTick = (value: number) =>
+  value < 1 ? `1/${Math.round(1 / value)}` : `${value}x`
+
+// Rasterises an area-scale field at a coarse cell size onto a canvas and
+// returns it as a data URL, so it can sit in the SVG (and its exports) as a
+// single image instead of thousands of rects. Points where `getArealScale`
+// returns null stay transparent.
+export const createDistortionHeatmap = (
+  width: number,
+  height: number,
+  getArealScale: (point: [number, number]) => number | null
+) => {
+  const columns = Math.ceil(width / HEATMAP_CELL_SIZE)
+  const rows = Math.ceil(height / HEATMAP_CELL_SIZE)
+  const canvas = document.createElement('canvas')
+  canvas.width = columns
+  canvas.height = rows
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    return null
+  }
+  const image = ctx.createImageData(columns, rows)
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      const scale = getArealScale([
+        (column + 0.5) * HEATMAP_CELL_SIZE,
+        (row + 0.5) * HEATMAP_CELL_SIZE,
+      ])
+      if (scale === null || !Number.isFinite(scale) || scale <= 0) {
+        continue
+      }
+      const color = d3.rgb(heatmapColor(scale))
+      const index = (row * columns + column) * 4
+      image.data[index] = color.r
+      image.data[index + 1] = color.g
+      image.data[index + 2] = color.b
+      image.data[index + 3] = 255
+    }
+  }
+  ctx.putImageData(image, 0, 0)
+  return canvas.toDataURL('image/png')
+}
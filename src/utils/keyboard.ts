@@ -0,0 +1,17 @@
+import type { LonLat } from '../types'
+
+// Maps an arrow key to a [lon, lat] delta in degrees; null for other keys.
+export const getArrowKeyDelta = (key: string, step: number): LonLat | null => {
+  switch (key) {
+    case 'ArrowUp':
+      return [0, step]
+    case 'ArrowDown':
+      return [0, -step]
+    case 'ArrowLeft':
+      return [-step, 0]
+    case 'ArrowRight':
+      return [step, 0]
+    default:
+      return null
+  }
+}
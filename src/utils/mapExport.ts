@@ -0,0 +1,112 @@
+import { MAP_HEIGHT, MAP_WIDTH } from '../constants'
+import type { MapTransform } from '../types'
+import { WATERMARK_HEIGHT, createSvgImage, drawWatermark } from './svgExport'
+
+const WATERMARK_URL = 'https://www.runcell.dev/tool/true-size-map'
+
+const MAP_EXPORT_STYLES = `
+  .map-ocean { fill: rgba(12, 26, 48, 0.9); }
+  .map-sphere {
+    fill: rgba(248, 245, 239, 0.03);
+    stroke: rgba(248, 245, 239, 0.22);
+    stroke-width: 1;
+    vector-effect: non-scaling-stroke;
+  }
+  .world-base path {
+    fill: rgba(248, 245, 239, 0.08);
+    stroke: rgba(248, 245, 239, 0.18);
+    stroke-width: 0.6;
+    vector-effect: non-scaling-stroke;
+  }
+  .lat-lines .lat-line {
+    fill: none;
+    stroke: rgba(248, 245, 239, 0.15);
+    stroke-width: 1;
+    stroke-dasharray: 4 6;
+    vector-effect: non-scaling-stroke;
+  }
+  .lat-lines .lat-line.equator {
+    stroke: #f6c453;
+    stroke-width: 1.6;
+    stroke-dasharray: none;
+  }
+  .lat-labels text {
+    fill: rgba(248, 245, 239, 0.55);
+    font: 12px "IBM Plex Sans", "Segoe UI", sans-serif;
+    letter-spacing: 0.06em;
+    text-transform: uppercase;
+  }
+  .country-shape {
+    stroke: rgba(255, 255, 255, 0.4);
+    stroke-width: 0.8;
+    vector-effect: non-scaling-stroke;
+  }
+  .country-group.is-selected .country-shape {
+    stroke: #fff6de;
+    stroke-width: 2;
+  }
+  .country-group.is-disabled { opacity: 0.55; }
+  .heatmap-legend-backdrop { fill: rgba(6, 12, 22, 0.72); }
+  .heatmap-legend text {
+    fill: rgba(248, 245, 239, 0.8);
+    font: 11px "IBM Plex Sans", "Segoe UI", sans-serif;
+  }
+  .tissot-circle {
+    fill: rgba(246, 196, 83, 0.18);
+    stroke: rgba(246, 196, 83, 0.7);
+    stroke-width: 0.8;
+    vector-effect: non-scaling-stroke;
+  }
+  .measure-path {
+    fill: none;
+    stroke: #f6c453;
+    stroke-width: 2;
+    vector-effect: non-scaling-stroke;
+  }
+  .measure-path.is-closed { fill: rgba(246, 196, 83, 0.16); }
+  .measure-draft .measure-path { stroke-dasharray: 6 4; }
+  .measure-vertex { fill: #fff6de; stroke: #f6c453; stroke-width: 1; }
+  .stamp-outline {
+    fill: rgba(248, 245, 239, 0.08);
+    stroke-width: 1.6;
+    stroke-dasharray: 5 3;
+    vector-effect: non-scaling-stroke;
+  }
+`
+
+// Renders the true-size map SVG as it is currently zoomed and panned; the zoom
+// level is noted next to the watermark so the crop is not mistaken for the
+// whole map.
+export const createMapPng = async (
+  svg: SVGSVGElement,
+  transform: MapTransform
+) => {
+  const image = await createSvgImage(
+    svg,
+    MAP_EXPORT_STYLES,
+    MAP_WIDTH,
+    MAP_HEIGHT
+  )
+  const scale = Math.max(1, window.devicePixelRatio || 1)
+  const height = MAP_HEIGHT + WATERMARK_HEIGHT
+  const canvas = document.createElement('canvas')
+  canvas.width = MAP_WIDTH * scale
+  canvas.height = height * scale
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    return null
+  }
+  ctx.scale(scale, scale)
+  ctx.fillStyle = '#0c1a30'
+  ctx.fillRect(0, 0, MAP_WIDTH, height)
+  ctx.drawImage(image, 0, 0, MAP_WIDTH, MAP_HEIGHT)
+  drawWatermark(
+    ctx,
+    transform.k > 1
+      ? `${WATERMARK_URL} · ${transform.k.toFixed(1)}x zoom`
+      : WATERMARK_URL,
+    MAP_WIDTH,
+    height
+  )
+  return canvas.toDataURL('image/png')
+}
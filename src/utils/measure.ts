@@ -0,0 +1,80 @@
+import * as d3 from 'd3'
+import type { Geometry } from 'geojson'
+import { EARTH_RADIUS_KM } from '../constants'
+import type { DistanceUnit, LonLat, MeasurePath } from '../types'
+
+const KM_PER_MILE = 1.609344
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  km: 'km',
+  mi: 'mi',
+}
+
+// Great-circle length of the polyline in km, including the closing edge for
+// polygons.
+export const getPathLength = (points: LonLat[], closed = false) => {
+  const vertices = closed && points.length > 2 ? [...points, points[0]] : points
+  let length = 0
+  for (let index = 1; index < vertices.length; index += 1) {
+    length += d3.geoDistance(vertices[index - 1], vertices[index])
+  }
+  return length * EARTH_RADIUS_KM
+}
+
+const createRing = (points: LonLat[]) => {
+  const ring = [...points, points[0]].map(([lon, lat]) => [lon, lat])
+  // d3 treats a ring as enclosing whatever lies on its right, so a ring drawn
+  // the "wrong" way round covers the rest of the sphere; flip it to keep the
+  // smaller side.
+  const area = d3.geoArea({ type: 'Polygon', coordinates: [ring] })
+  return area > 2 * Math.PI ? ring.reverse() : ring
+}
+
+// Geodesic area of the closed shape in km², whichever way it was drawn.
+export const getPolygonArea = (points: LonLat[]) => {
+  if (points.length < 3) {
+    return 0
+  }
+  const steradians = d3.geoArea({
+    type: 'Polygon',
+    coordinates: [createRing(points)],
+  })
+  return steradians * EARTH_RADIUS_KM * EARTH_RADIUS_KM
+}
+
+export const toMeasureGeometry = ({
+  points,
+  closed,
+}: Pick<MeasurePath, 'points' | 'closed'>): Geometry => {
+  if (closed && points.length > 2) {
+    return { type: 'Polygon', coordinates: [createRing(points)] }
+  }
+  return {
+    type: 'LineString',
+    coordinates: points.map(([lon, lat]) => [lon, lat]),
+  }
+}
+
+export const convertDistance = (km: number, unit: DistanceUnit) =>
+  unit === 'mi' ? km / KM_PER_MILE : km
+
+export const convertArea = (km2: number, unit: DistanceUnit) =>
+  unit === 'mi' ? km2 / (KM_PER_MILE * KM_PER_MILE) : km2
+
+export const formatDistance = (
+  km: number,
+  unit: DistanceUnit,
+  formatter: Intl.NumberFormat
+) =>
+  `${formatter.format(Math.round(convertDistance(km, unit)))} ${
+    DISTANCE_UNIT_LABELS[unit]
+  }`
+
+export const formatMeasuredArea = (
+  km2: number,
+  unit: DistanceUnit,
+  formatter: Intl.NumberFormat
+) =>
+  `${formatter.format(Math.round(convertArea(km2, unit)))} ${
+    DISTANCE_UNIT_LABELS[unit]
+  }²`
@@ -0,0 +1,48 @@
+import type { SolarBody } from '../solar'
+
+const DEG_TO_RAD = Math.PI / 180
+
+// Polar over equatorial radius of the disk as seen from `viewLatitude`; an
+// oblate body looks flattest from its equator and round from over a pole.
+export const getApparentAxisRatio = (oblateness: number, viewLatitude: number) => {
+  const polar = 1 - oblateness
+  const phi = viewLatitude * DEG_TO_RAD
+  return Math.sqrt(
+    polar * polar * Math.cos(phi) ** 2 + Math.sin(phi) ** 2
+  )
+}
+
+// How far the body reaches in equatorial radii, rings included, so the inset
+// can shrink the disk until the whole system fits.
+export const getBodyExtent = (body: SolarBody) =>
+  body.rings ? body.rings.outerKm / (body.diameterKm / 2) : 1
+
+// Half of an elliptical annulus centred on (cx, cy): the far half lies above
+// the centre when the viewer is north of the ring plane.
+export const createRingHalfPath = (
+  cx: number,
+  cy: number,
+  innerRadius: number,
+  outerRadius: number,
+  viewLatitude: number,
+  half: 'back' | 'front'
+) => {
+  const squash = Math.abs(Math.sin(viewLatitude * DEG_TO_RAD))
+  const isUpper = (half === 'back') === viewLatitude >= 0
+  const outerSweep = isUpper ? 1 : 0
+  const innerSweep = isUpper ? 0 : 1
+  return [
+    `M ${cx - outerRadius} ${cy}`,
+    `A ${outerRadius} ${outerRadius * squash} 0 0 ${outerSweep} ${cx + outerRadius} ${cy}`,
+    `L ${cx + innerRadius} ${cy}`,
+    `A ${innerRadius} ${innerRadius * squash} 0 0 ${innerSweep} ${cx - innerRadius} ${cy}`,
+    'Z',
+  ].join(' ')
+}
+
+// Maps the round orthographic disk onto the flattened one by squashing y
+// about the centre; `invert` undoes it for pointer and pixel lookups.
+export const createDiskSquash = (cy: number, axisRatio: number) => ({
+  transform: `translate(0 ${cy * (1 - axisRatio)}) scale(1 ${axisRatio})`,
+  invertY: (y: number) => cy + (y - cy) / axisRatio,
+})
@@ -0,0 +1,421 @@
+import * as d3 from 'd3'
+import type { GeoProjection, GeoRawProjection } from 'd3-geo'
+import type { EquatorProjectionId, LonLat, MapProjectionId } from '../types'
+import { MAP_HEIGHT, MAP_PADDING, MAP_WIDTH } from '../constants'
+import { clamp } from './geo'
+
+const DEG_TO_RAD = Math.PI / 180
+const RAD_TO_DEG = 180 / Math.PI
+const HALF_PI = Math.PI / 2
+const NEWTON_ITERATIONS = 25
+const NEWTON_EPSILON = 1e-9
+// Latitude where Web Mercator tiles stop: the world becomes a square.
+const WEB_MERCATOR_MAX_LATITUDE = 85.0511
+const GALL_PETERS_STANDARD_PARALLEL = 45 * DEG_TO_RAD
+
+export type MapProjectionOption = {
+  id: MapProjectionId
+  label: string
+  description: string
+}
+
+export const MAP_PROJECTIONS: MapProjectionOption[] = [
+  {
+    id: 'mercator',
+    label: 'Mercator',
+    description:
+      'Conformal: shapes stay true locally, but area balloons toward the poles.',
+  },
+  {
+    id: 'web-mercator',
+    label: 'Web Mercator',
+    description:
+      'The spherical Mercator used by web map tiles, cut off at 85.05° so the world is a square.',
+  },
+  {
+    id: 'robinson',
+    label: 'Robinson',
+    description:
+      'A compromise: neither areas nor angles are exact, but neither is badly off.',
+  },
+  {
+    id: 'equal-earth',
+    label: 'Equal Earth',
+    description:
+      'Equal-area: every country keeps its true size, while shapes shear near the edges.',
+  },
+  {
+    id: 'mollweide',
+    label: 'Mollweide',
+    description:
+      'Equal-area on an ellipse; shapes distort most at the outer longitudes.',
+  },
+  {
+    id: 'gall-peters',
+    label: 'Gall-Peters',
+    description:
+      'Cylindrical equal-area: true sizes, with the tropics stretched tall and the poles squashed flat.',
+  },
+]
+
+export const DEFAULT_MAP_PROJECTION: MapProjectionId = 'mercator'
+
+export const getMapProjectionOption = (id: MapProjectionId) =>
+  MAP_PROJECTIONS.find((option) => option.id === id) ?? MAP_PROJECTIONS[0]
+
+// Inverts a raw projection numerically for the ones without a closed-form
+// inverse, starting from the point's own coordinates.
+const createNewtonInvert =
+  (raw: (lambda: number, phi: number) => [number, number]) =>
+  (x: number, y: number): [number, number] => {
+    let lambda = x
+    let phi = y
+    for (let i = 0; i < NEWTON_ITERATIONS; i += 1) {
+      const [fx, fy] = raw(lambda, phi)
+      const dx = fx - x
+      const dy = fy - y
+      if (Math.abs(dx) < NEWTON_EPSILON && Math.abs(dy) < NEWTON_EPSILON) {
+        break
+      }
+      const [xl, yl] = raw(lambda + 1e-7, phi)
+      const [xp, yp] = raw(lambda, phi + 1e-7)
+      const a = (xl - fx) / 1e-7
+      const b = (xp - fx) / 1e-7
+      const c = (yl - fy) / 1e-7
+      const d = (yp - fy) / 1e-7
+      const det = a * d - b * c
+      if (Math.abs(det) < NEWTON_EPSILON) {
+        break
+      }
+      lambda -= (d * dx - b * dy) / det
+      phi = clamp(phi - (a * dy - c * dx) / det, -HALF_PI, HALF_PI)
+    }
+    return [lambda, phi]
+  }
+
+// d3-geo ships Mercator and Equal Earth with exact inverses; Robinson,
+// Mollweide and Gall-Peters live in d3-geo-projection, so they are written out
+// below. @types/d3-geo declares the raw exports as factories, but d3 exports
+// the raw functions themselves.
+const mercatorRaw = d3.geoMercatorRaw as unknown as GeoRawProjection
+const equalEarthRaw = d3.geoEqualEarthRaw as unknown as GeoRawProjection
+
+// Robinson's published table of parallel lengths and distances from the
+// equator at 5° steps, interpolated the same way as d3-geo-projection.
+const ROBINSON_TABLE = [
+  [0.9986, -0.062],
+  [1.0, 0.0],
+  [0.9986, 0.062],
+  [0.9954, 0.124],
+  [0.99, 0.186],
+  [0.9822, 0.248],
+  [0.973, 0.31],
+  [0.96, 0.372],
+  [0.9427, 0.434],
+  [0.9216, 0.4958],
+  [0.8962, 0.5571],
+  [0.8679, 0.6176],
+  [0.835, 0.6769],
+  [0.7986, 0.7346],
+  [0.7597, 0.7903],
+  [0.7186, 0.8435],
+  [0.6732, 0.8936],
+  [0.6213, 0.9394],
+  [0.5722, 0.9761],
+  [0.5322, 1.0],
+].map(([length, distance]) => [length, distance * 1.0144])
+
+const robinsonForward = (lambda: number, phi: number): [number, number] => {
+  const i = Math.min(18, (Math.abs(phi) * 36) / Math.PI)
+  const i0 = Math.floor(i)
+  const di = i - i0
+  const [ax, ay] = ROBINSON_TABLE[i0]
+  const [bx, by] = ROBINSON_TABLE[i0 + 1]
+  const [cx, cy] = ROBINSON_TABLE[Math.min(19, i0 + 2)]
+  return [
+    lambda *
+      (bx + (di * (cx - ax)) / 2 + (di * di * (cx - 2 * bx + ax)) / 2),
+    (phi > 0 ? HALF_PI : -HALF_PI) *
+      (by + (di * (cy - ay)) / 2 + (di * di * (cy - 2 * by + ay)) / 2),
+  ]
+}
+
+const robinsonRaw: GeoRawProjection = Object.assign(robinsonForward, {
+  invert: createNewtonInvert(robinsonForward),
+})
+
+// Solves 2θ + sin 2θ = π sin φ for the auxiliary angle θ.
+const getMollweideTheta = (phi: number) => {
+  if (Math.abs(Math.abs(phi) - HALF_PI) < NEWTON_EPSILON) {
+    return phi
+  }
+  const target = Math.PI * Math.sin(phi)
+  let theta = phi
+  for (let i = 0; i < NEWTON_ITERATIONS; i += 1) {
+    const delta =
+      (2 * theta + Math.sin(2 * theta) - target) / (2 + 2 * Math.cos(2 * theta))
+    theta -= delta
+    if (Math.abs(delta) < NEWTON_EPSILON) {
+      break
+    }
+  }
+  return theta
+}
+
+const mollweideRaw: GeoRawProjection = Object.assign(
+  (lambda: number, phi: number): [number, number] => {
+    const theta = getMollweideTheta(phi)
+    return [
+      ((2 * Math.SQRT2) / Math.PI) * lambda * Math.cos(theta),
+      Math.SQRT2 * Math.sin(theta),
+    ]
+  },
+  {
+    invert: (x: number, y: number): [number, number] => {
+      const theta = Math.asin(clamp(y / Math.SQRT2, -1, 1))
+      const cosTheta = Math.cos(theta)
+      return [
+        cosTheta > NEWTON_EPSILON
+          ? (Math.PI * x) / (2 * Math.SQRT2 * cosTheta)
+          : 0,
+        Math.asin(clamp((2 * theta + Math.sin(2 * theta)) / Math.PI, -1, 1)),
+      ]
+    },
+  }
+)
+
+const gallPetersRaw: GeoRawProjection = Object.assign(
+  (lambda: number, phi: number): [number, number] => [
+    lambda * Math.cos(GALL_PETERS_STANDARD_PARALLEL),
+    Math.sin(phi) / Math.cos(GALL_PETERS_STANDARD_PARALLEL),
+  ],
+  {
+    invert: (x: number, y: number): [number, number] => [
+      x / Math.cos(GALL_PETERS_STANDARD_PARALLEL),
+      Math.asin(clamp(y * Math.cos(GALL_PETERS_STANDARD_PARALLEL), -1, 1)),
+    ],
+  }
+)
+
+const RAW_PROJECTIONS: Record<MapProjectionId, GeoRawProjection> = {
+  mercator: mercatorRaw,
+  'web-mercator': mercatorRaw,
+  robinson: robinsonRaw,
+  'equal-earth': equalEarthRaw,
+  mollweide: mollweideRaw,
+  'gall-peters': gallPetersRaw,
+}
+
+const fitToMap = (projection: GeoProjection) =>
+  projection.fitExtent(
+    [
+      [MAP_PADDING, MAP_PADDING],
+      [MAP_WIDTH - MAP_PADDING, MAP_HEIGHT - MAP_PADDING],
+    ],
+    { type: 'Sphere' }
+  )
+
+// Builds the projection for the true-size map. Mercator keeps its original
+// framing so existing share links land in the same place.
+export const createMapProjection = (id: MapProjectionId): GeoProjection => {
+  if (id === 'mercator') {
+    return d3
+      .geoMercator()
+      .scale(175)
+      .translate([MAP_WIDTH / 2, MAP_HEIGHT / 2 + 10])
+  }
+  if (id === 'web-mercator') {
+    const scale = MAP_WIDTH / (2 * Math.PI)
+    const [, top] = mercatorRaw(0, WEB_MERCATOR_MAX_LATITUDE * DEG_TO_RAD)
+    const center = MAP_HEIGHT / 2
+    return d3
+      .geoMercator()
+      .scale(scale)
+      .translate([MAP_WIDTH / 2, center])
+      .clipExtent([
+        [0, center - top * scale],
+        [MAP_WIDTH, center + top * scale],
+      ])
+  }
+  return fitToMap(d3.geoProjection(RAW_PROJECTIONS[id]))
+}
+
+export type EquatorProjectionOption = {
+  id: EquatorProjectionId
+  label: string
+  description: string
+}
+
+export const EQUATOR_PROJECTIONS: EquatorProjectionOption[] = [
+  {
+    id: 'mercator',
+    label: 'Mercator',
+    description:
+      'True to scale along the tilted equator; area grows toward its poles.',
+  },
+  {
+    id: 'transverse-mercator',
+    label: 'Transverse Mercator',
+    description:
+      'Mercator turned sideways: true to scale along the dashed great circle through the handle and the new pole.',
+  },
+  {
+    id: 'equal-earth',
+    label: 'Oblique Equal Earth',
+    description:
+      'Areas stay true everywhere; shapes shear away from the tilted equator and its central meridian.',
+  },
+  {
+    id: 'azimuthal-equidistant',
+    label: 'Oblique azimuthal equidistant',
+    description:
+      'Distances from the handle are true; everything else stretches toward the opposite side of the world.',
+  },
+  {
+    id: 'mollweide',
+    label: 'Oblique Mollweide',
+    description:
+      'Equal-area on an ellipse whose long axis follows the tilted equator.',
+  },
+]
+
+export const getEquatorProjectionOption = (id: EquatorProjectionId) =>
+  EQUATOR_PROJECTIONS.find((option) => option.id === id) ??
+  EQUATOR_PROJECTIONS[0]
+
+// Builds the Equator Lab projection in its normal aspect; the lab rotates it
+// so that its equator follows the dragged great circle. The Mercators keep
+// the lab's original framing, the bounded ones are fitted to the map.
+export const createEquatorProjection = (
+  id: EquatorProjectionId
+): GeoProjection => {
+  if (id === 'mercator') {
+    return createMapProjection('mercator')
+  }
+  if (id === 'transverse-mercator') {
+    return d3
+      .geoTransverseMercator()
+      .scale(175)
+      .translate([MAP_WIDTH / 2, MAP_HEIGHT / 2 + 10])
+  }
+  if (id === 'azimuthal-equidistant') {
+    return fitToMap(d3.geoAzimuthalEquidistant())
+  }
+  return fitToMap(d3.geoProjection(RAW_PROJECTIONS[id]))
+}
+
+export const getMapMaxLatitude = (id: MapProjectionId) =>
+  id === 'web-mercator' ? WEB_MERCATOR_MAX_LATITUDE : 90
+
+// True when a map point lies on the projected globe rather than in the empty
+// corners around an elliptical or clipped projection.
+export const isOnMapProjection = (
+  projection: GeoProjection,
+  maxLatitude: number,
+  point: [number, number]
+) => {
+  const inverted = projection.invert?.(point)
+  if (
+    !inverted ||
+    !Number.isFinite(inverted[0]) ||
+    !Number.isFinite(inverted[1]) ||
+    Math.abs(inverted[0]) > 180 ||
+    Math.abs(inverted[1]) > maxLatitude
+  ) {
+    return false
+  }
+  const projected = projection(inverted)
+  return (
+    projected !== null &&
+    Math.hypot(projected[0] - point[0], projected[1] - point[1]) < 0.5
+  )
+}
+
+export type ProjectionDistortion = {
+  // Area on the map per unit of true area, relative to the map centre.
+  areal: number
+  // Largest angle (degrees) by which a right angle on the ground is bent.
+  angular: number
+}
+
+// Tissot's indicatrix from the images of a unit step east and north: the
+// singular values of that 2x2 Jacobian are the principal scale factors a ≥ b.
+const getPrincipalScales = (
+  [ex, ey]: [number, number],
+  [nx, ny]: [number, number]
+) => {
+  const sumSquares = ex * ex + ey * ey + nx * nx + ny * ny
+  const det = Math.abs(ex * ny - ey * nx)
+  const spread = Math.sqrt(Math.max(0, sumSquares * sumSquares - 4 * det * det))
+  const a = Math.sqrt((sumSquares + spread) / 2)
+  const b = det / Math.max(a, NEWTON_EPSILON)
+  return { a, b }
+}
+
+const getAngularDeformation = ({ a, b }: { a: number; b: number }) =>
+  2 * Math.asin(clamp((a - b) / (a + b), 0, 1)) * RAD_TO_DEG
+
+const getRawPrincipalScales = (id: MapProjectionId, [lon, lat]: LonLat) => {
+  const raw = RAW_PROJECTIONS[id]
+  const step = 1e-5
+  const lambda = lon * DEG_TO_RAD
+  const phi = clamp(lat, -89.5, 89.5) * DEG_TO_RAD
+  const origin = raw(lambda, phi)
+  const east = raw(lambda + step, phi)
+  const north = raw(lambda, phi + step)
+  const cosPhi = Math.cos(phi)
+  return getPrincipalScales(
+    [
+      (east[0] - origin[0]) / (step * cosPhi),
+      (east[1] - origin[1]) / (step * cosPhi),
+    ],
+    [(north[0] - origin[0]) / step, (north[1] - origin[1]) / step]
+  )
+}
+
+export const getProjectionDistortion = (
+  id: MapProjectionId,
+  lonLat: LonLat
+): ProjectionDistortion => {
+  const scales = getRawPrincipalScales(id, lonLat)
+  const reference = getRawPrincipalScales(id, [0, 0])
+  return {
+    areal: (scales.a * scales.b) / (reference.a * reference.b),
+    angular: getAngularDeformation(scales),
+  }
+}
+
+// The same measure for any configured d3 projection (a rotated Mercator, the
+// orthographic globe), relative to its nominal scale rather than a raw id.
+export const getLocalDistortion = (
+  projection: GeoProjection,
+  [lon, lat]: LonLat
+): ProjectionDistortion | null => {
+  const step = 1e-3
+  const phi = clamp(lat, -89.5, 89.5)
+  const origin = projection([lon, phi])
+  const east = projection([lon + step, phi])
+  const north = projection([lon, phi + step])
+  if (!origin || !east || !north) {
+    return null
+  }
+  const unit = projection.scale() * step * DEG_TO_RAD
+  const cosPhi = Math.cos(phi * DEG_TO_RAD)
+  const scales = getPrincipalScales(
+    [(east[0] - origin[0]) / (unit * cosPhi), (east[1] - origin[1]) / (unit * cosPhi)],
+    [(north[0] - origin[0]) / unit, (north[1] - origin[1]) / unit]
+  )
+  return { areal: scales.a * scales.b, angular: getAngularDeformation(scales) }
+}
+
+// Linear size of a shape moved from one place to another relative to how it
+// is drawn at home; for Mercator this is cos(home lat) / cos(current lat).
+export const getProjectionScale = (
+  id: MapProjectionId,
+  from: LonLat,
+  to: LonLat
+) =>
+  Math.sqrt(
+    getProjectionDistortion(id, to).areal /
+      getProjectionDistortion(id, from).areal
+  )
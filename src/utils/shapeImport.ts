@@ -0,0 +1,206 @@
+import * as d3 from 'd3'
+import * as topojson from 'topojson-client'
+import type {
+  Feature,
+  FeatureCollection,
+  Geometry,
+  GeoJsonProperties,
+  MultiPolygon,
+  Polygon,
+  Position,
+} from 'geojson'
+import type { Topology } from 'topojson-specification'
+import type { CountryFeature } from '../types'
+
+export const SHAPE_IMPORT_ACCEPT = '.geojson,.json,.topojson,.kml'
+const MAX_FILE_BYTES = 5 * 1024 * 1024
+const MAX_SHAPES = 50
+
+export type ImportedShape = {
+  name: string
+  feature: CountryFeature
+}
+
+type PolygonGeometry = Polygon | MultiPolygon
+
+const isPolygonGeometry = (
+  geometry: Geometry | null | undefined
+): geometry is PolygonGeometry =>
+  geometry?.type === 'Polygon' || geometry?.type === 'MultiPolygon'
+
+const isValidPosition = (position: Position) =>
+  Array.isArray(position) &&
+  position.length >= 2 &&
+  Number.isFinite(position[0]) &&
+  Number.isFinite(position[1]) &&
+  Math.abs(position[0]) <= 180 &&
+  Math.abs(position[1]) <= 90
+
+const validateRings = (rings: Position[][], label: string) => {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    throw new Error(`${label} has a polygon without rings.`)
+  }
+  rings.forEach((ring) => {
+    if (!Array.isArray(ring) || ring.length < 4) {
+      throw new Error(`${label} has a ring with fewer than four positions.`)
+    }
+    if (!ring.every(isValidPosition)) {
+      throw new Error(
+        `${label} has coordinates outside ±180° longitude / ±90° latitude.`
+      )
+    }
+    const first = ring[0]
+    const last = ring[ring.length - 1]
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      throw new Error(`${label} has a ring that is not closed.`)
+    }
+  })
+}
+
+// GeoJSON (RFC 7946) winds exterior rings counter-clockwise while d3-geo
+// expects clockwise; a polygon covering more than a hemisphere is flipped.
+const rewindRings = (rings: Position[][]) =>
+  d3.geoArea({ type: 'Polygon', coordinates: rings }) > 2 * Math.PI
+    ? rings.map((ring) => [...ring].reverse())
+    : rings
+
+const normalizeGeometry = (
+  geometry: PolygonGeometry,
+  label: string
+): PolygonGeometry => {
+  if (geometry.type === 'Polygon') {
+    validateRings(geometry.coordinates, label)
+    return { type: 'Polygon', coordinates: rewindRings(geometry.coordinates) }
+  }
+  geometry.coordinates.forEach((polygon) => validateRings(polygon, label))
+  return {
+    type: 'MultiPolygon',
+    coordinates: geometry.coordinates.map(rewindRings),
+  }
+}
+
+const getFeatureName = (properties: GeoJsonProperties, fallback: string) => {
+  const name = properties?.name ?? properties?.NAME ?? properties?.title
+  return typeof name === 'string' && name.trim() ? name.trim() : fallback
+}
+
+const toFeatures = (data: unknown): Feature<Geometry, GeoJsonProperties>[] => {
+  if (!data || typeof data !== 'object' || !('type' in data)) {
+    throw new Error('The file is not GeoJSON or TopoJSON.')
+  }
+  const typed = data as { type: string }
+  if (typed.type === 'Topology') {
+    const topology = data as Topology
+    return Object.values(topology.objects ?? {}).flatMap((object) => {
+      const converted = topojson.feature(topology, object) as
+        | FeatureCollection
+        | Feature
+      return converted.type === 'FeatureCollection'
+        ? converted.features
+        : [converted]
+    })
+  }
+  if (typed.type === 'FeatureCollection') {
+    return (data as FeatureCollection).features ?? []
+  }
+  if (typed.type === 'Feature') {
+    return [data as Feature]
+  }
+  return [{ type: 'Feature', properties: {}, geometry: data as Geometry }]
+}
+
+const parseKmlCoordinates = (text: string | null | undefined): Position[] =>
+  (text ?? '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => tuple.split(',').map(Number))
+
+const parseKml = (text: string): Feature<Geometry, GeoJsonProperties>[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The KML file is not valid XML.')
+  }
+  return Array.from(doc.getElementsByTagName('Placemark')).flatMap(
+    (placemark) => {
+      const polygons = Array.from(placemark.getElementsByTagName('Polygon')).map(
+        (polygon) => {
+          const outer = polygon.getElementsByTagName('outerBoundaryIs')[0]
+          const inner = Array.from(
+            polygon.getElementsByTagName('innerBoundaryIs')
+          )
+          return [outer, ...inner].map((boundary) =>
+            parseKmlCoordinates(
+              boundary?.getElementsByTagName('coordinates')[0]?.textContent
+            )
+          )
+        }
+      )
+      if (polygons.length === 0) {
+        return []
+      }
+      const name = placemark.getElementsByTagName('name')[0]?.textContent
+      const geometry: PolygonGeometry =
+        polygons.length === 1
+          ? { type: 'Polygon', coordinates: polygons[0] }
+          : { type: 'MultiPolygon', coordinates: polygons }
+      return [{ type: 'Feature', properties: { name }, geometry }]
+    }
+  )
+}
+
+// Reads a user-supplied GeoJSON, TopoJSON or KML file and returns only its
+// polygon shapes, validated and wound the way d3-geo expects. Throws an Error
+// with a user-facing message when nothing usable is found.
+export const parseShapeFile = async (file: File): Promise<ImportedShape[]> => {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error('Files larger than 5 MB are not supported.')
+  }
+  const text = await file.text()
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'Custom shape'
+  const isKml =
+    /\.kml$/i.test(file.name) || text.trimStart().startsWith('<')
+
+  let features: Feature<Geometry, GeoJsonProperties>[]
+  if (isKml) {
+    features = parseKml(text)
+  } else {
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch {
+      throw new Error('The file is not valid JSON.')
+    }
+    features = toFeatures(data)
+  }
+
+  const polygons = features.filter(
+    (feature) => feature && isPolygonGeometry(feature.geometry)
+  )
+  if (polygons.length === 0) {
+    throw new Error(
+      'No polygon shapes found. Points and lines cannot be compared by area.'
+    )
+  }
+  if (polygons.length > MAX_SHAPES) {
+    throw new Error(`Files with more than ${MAX_SHAPES} shapes are not supported.`)
+  }
+
+  return polygons.map((feature, index) => {
+    const fallback =
+      polygons.length > 1 ? `${baseName} ${index + 1}` : baseName
+    const name = getFeatureName(feature.properties, fallback)
+    const geometry = normalizeGeometry(
+      feature.geometry as PolygonGeometry,
+      `"${name}"`
+    )
+    return {
+      name,
+      feature: {
+        type: 'Feature',
+        properties: { name },
+        geometry,
+      },
+    }
+  })
+}
@@ -0,0 +1,144 @@
+import type {
+  CountryKind,
+  LonLat,
+  SharedCountryState,
+  SharedMapState,
+} from '../types'
+import { normalizeBearing } from './geo'
+
+const COORDINATE_DIGITS = 2
+const ENTRY_SEPARATOR = ';'
+const MAP_POSITION_MARKER = '@'
+const GLOBE_POSITION_MARKER = '~'
+const BEARING_MARKER = '!'
+
+const formatCoordinate = ([lon, lat]: LonLat) =>
+  `${Number(lon.toFixed(COORDINATE_DIGITS))},${Number(
+    lat.toFixed(COORDINATE_DIGITS)
+  )}`
+
+const parseCoordinate = (value: string | undefined): LonLat | null => {
+  if (!value) {
+    return null
+  }
+  const [lonText, latText] = value.split(',')
+  const lon = Number(lonText)
+  const lat = Number(latText)
+  if (
+    lonText === undefined ||
+    latText === undefined ||
+    !Number.isFinite(lon) ||
+    !Number.isFinite(lat) ||
+    Math.abs(lon) > 180 ||
+    Math.abs(lat) > 90
+  ) {
+    return null
+  }
+  return [lon, lat]
+}
+
+const parseBearing = (value: string | undefined) => {
+  const bearing = Number(value)
+  return value && Number.isFinite(bearing) ? normalizeBearing(bearing) : 0
+}
+
+// Entries look like `304@-40.5,2.1~12,-8!90`: country id, then an optional
+// map position and an optional globe centroid, both as lon,lat in degrees,
+// and an optional bearing in degrees.
+const encodeCountry = ({
+  id,
+  mapPosition,
+  globePosition,
+  bearing,
+}: SharedCountryState) =>
+  [
+    encodeURIComponent(id),
+    mapPosition ? `${MAP_POSITION_MARKER}${formatCoordinate(mapPosition)}` : '',
+    globePosition
+      ? `${GLOBE_POSITION_MARKER}${formatCoordinate(globePosition)}`
+      : '',
+    bearing !== 0
+      ? `${BEARING_MARKER}${Number(bearing.toFixed(COORDINATE_DIGITS))}`
+      : '',
+  ].join('')
+
+const decodeCountry = (entry: string): SharedCountryState | null => {
+  const match = entry.match(
+    /^([^@~!]+)(?:@([^@~!]+))?(?:~([^@~!]+))?(?:!([^@~!]+))?$/
+  )
+  if (!match) {
+    return null
+  }
+  let id: string
+  try {
+    id = decodeURIComponent(match[1])
+  } catch {
+    return null
+  }
+  return {
+    id,
+    mapPosition: parseCoordinate(match[2]),
+    globePosition: parseCoordinate(match[3]),
+    bearing: parseBearing(match[4]),
+  }
+}
+
+// Country ids are Natural Earth numeric codes. Imported shapes are
+// `custom-N` and cannot be rebuilt from a link; anything else is an admin-1
+// region id.
+export const getSharedIdKind = (id: string): CountryKind =>
+  /^\d+$/.test(id) ? 'country' : id.startsWith('custom-') ? 'custom' : 'region'
+
+export const encodeMapState = ({
+  view,
+  selectedId,
+  countries,
+}: SharedMapState) => {
+  const params = [`v=${view === 'globe' ? 'g' : 'm'}`]
+  if (selectedId) {
+    params.push(`s=${encodeURIComponent(selectedId)}`)
+  }
+  if (countries.length > 0) {
+    params.push(`c=${countries.map(encodeCountry).join(ENTRY_SEPARATOR)}`)
+  }
+  return `#${params.join('&')}`
+}
+
+export const decodeMapState = (hash: string): SharedMapState | null => {
+  const raw = hash.replace(/^#/, '')
+  if (!raw) {
+    return null
+  }
+  const params = new Map<string, string>()
+  raw.split('&').forEach((part) => {
+    const separatorIndex = part.indexOf('=')
+    if (separatorIndex > 0) {
+      params.set(part.slice(0, separatorIndex), part.slice(separatorIndex + 1))
+    }
+  })
+  const viewParam = params.get('v')
+  const countriesParam = params.get('c')
+  if (!viewParam && !countriesParam) {
+    return null
+  }
+
+  const countries = (countriesParam ?? '')
+    .split(ENTRY_SEPARATOR)
+    .filter(Boolean)
+    .map(decodeCountry)
+    .filter((entry): entry is SharedCountryState => entry !== null)
+
+  let selectedId: string | null = null
+  try {
+    const selectedParam = params.get('s')
+    selectedId = selectedParam ? decodeURIComponent(selectedParam) : null
+  } catch {
+    selectedId = null
+  }
+
+  return {
+    view: viewParam === 'g' ? 'globe' : 'map',
+    selectedId,
+    countries,
+  }
+}
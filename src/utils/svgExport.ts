@@ -0,0 +1,75 @@
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+export const WATERMARK_HEIGHT = 32
+
+// Serializes a live SVG with inlined styles so it can be drawn onto a canvas;
+// stylesheet rules do not apply to SVGs loaded as images.
+export const createSvgImage = (
+  svg: SVGSVGElement,
+  styleText: string,
+  width: number,
+  height: number
+) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const svgClone = svg.cloneNode(true) as SVGSVGElement
+    svgClone.setAttribute('xmlns', SVG_NS)
+    svgClone.setAttribute('width', `${width}`)
+    svgClone.setAttribute('height', `${height}`)
+
+    const defs =
+      svgClone.querySelector('defs') ??
+      (() => {
+        const nextDefs = document.createElementNS(SVG_NS, 'defs')
+        svgClone.insertBefore(nextDefs, svgClone.firstChild)
+        return nextDefs
+      })()
+    const style = document.createElementNS(SVG_NS, 'style')
+    style.textContent = styleText
+    defs.appendChild(style)
+
+    const serializer = new XMLSerializer()
+    const svgText = serializer.serializeToString(svgClone)
+    const blob = new Blob([svgText], {
+      type: 'image/svg+xml;charset=utf-8',
+    })
+    const url = URL.createObjectURL(blob)
+    const image = new Image()
+    image.decoding = 'async'
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Failed to load SVG image.'))
+    }
+    image.src = url
+  })
+
+export const drawWatermark = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  width: number,
+  height: number
+) => {
+  ctx.fillStyle = 'rgba(248, 245, 239, 0.65)'
+  ctx.font = '12px "IBM Plex Sans", "Segoe UI", sans-serif'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(text, width / 2, height - WATERMARK_HEIGHT / 2)
+}
+
+export const downloadDataUrl = (dataUrl: string, filename: string) => {
+  const link = document.createElement('a')
+  link.download = filename
+  link.href = dataUrl
+  link.click()
+}
+
+// Object URLs are released on the next tick, once the click has started the
+// download.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  downloadDataUrl(url, filename)
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,20 @@
+import * as d3 from 'd3'
+import type { Polygon } from 'geojson'
+import type { TissotCircle } from '../types'
+import { TISSOT_RADIUS_RATIO } from '../constants'
+
+// Geodesic circles of equal ground size on a lat/lon grid; whatever shape a
+// projection draws them in is its distortion at that point. Longitudes are
+// offset half a step so no circle straddles the antimeridian.
+export const createTissotCircles = (spacing: number): TissotCircle[] => {
+  const circle = d3.geoCircle().radius(spacing * TISSOT_RADIUS_RATIO)
+  const latitudes = d3.range(-90 + spacing, 90, spacing)
+  const longitudes = d3.range(-180 + spacing / 2, 180, spacing)
+  return latitudes.flatMap((lat) =>
+    longitudes.map((lon) => ({
+      id: `${lon}:${lat}`,
+      center: [lon, lat] as [number, number],
+      geometry: circle.center([lon, lat])() as Polygon,
+    }))
+  )
+}
@@ -0,0 +1,137 @@
+import type { Tour, TourStep } from '../types'
+
+export const TOUR_DEFAULT_STEP_MS = 3000
+const TOUR_MIN_STEP_MS = 300
+const TOUR_MAX_STEP_MS = 60000
+const MAX_TOUR_STEPS = 50
+const MAX_TOUR_FILE_BYTES = 256 * 1024
+
+export const BUILT_IN_TOURS: Tour[] = [
+  {
+    id: 'greenland-africa',
+    title: 'Greenland vs Africa',
+    steps: [
+      {
+        country: '304',
+        target: [-40, 50],
+        duration: 3500,
+        caption:
+          'Greenland leaves the Arctic. Watch it shrink as it slides south.',
+      },
+      {
+        country: '304',
+        target: [20, 2],
+        duration: 4000,
+        caption:
+          'On the equator it shows its true size: Africa could hold Greenland about 14 times.',
+      },
+    ],
+  },
+  {
+    id: 'russia-africa',
+    title: 'Russia vs Africa',
+    steps: [
+      {
+        country: '643',
+        target: [70, 35],
+        duration: 3500,
+        caption: 'Russia drifts south across Central Asia, losing its polar stretch.',
+      },
+      {
+        country: '643',
+        target: [20, 2],
+        duration: 4000,
+        caption:
+          'Laid over Africa, the largest country covers only a little over half of the continent: 17.1 against 30.4 million km².',
+      },
+    ],
+  },
+  {
+    id: 'canada-brazil',
+    title: 'Canada vs Brazil',
+    steps: [
+      {
+        country: '124',
+        target: [-55, -10],
+        duration: 4000,
+        caption:
+          'Canada dropped onto Brazil: on the map it dwarfs Brazil, on the ground it is only about 17% larger.',
+      },
+    ],
+  },
+]
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const parseStep = (value: unknown, index: number): TourStep => {
+  const label = `Step ${index + 1}`
+  if (!value || typeof value !== 'object') {
+    throw new Error(`${label} is not an object.`)
+  }
+  const step = value as Record<string, unknown>
+  const country =
+    typeof step.country === 'string' || typeof step.country === 'number'
+      ? String(step.country).trim()
+      : ''
+  if (!country) {
+    throw new Error(`${label} needs a "country" id or name.`)
+  }
+  if (!isFiniteNumber(step.lat) || Math.abs(step.lat) > 90) {
+    throw new Error(`${label} needs a "lat" between -90 and 90.`)
+  }
+  if (!isFiniteNumber(step.lon) || Math.abs(step.lon) > 180) {
+    throw new Error(`${label} needs a "lon" between -180 and 180.`)
+  }
+  const duration = step.duration ?? TOUR_DEFAULT_STEP_MS
+  if (
+    !isFiniteNumber(duration) ||
+    duration < TOUR_MIN_STEP_MS ||
+    duration > TOUR_MAX_STEP_MS
+  ) {
+    throw new Error(
+      `${label} has a "duration" outside ${TOUR_MIN_STEP_MS}-${TOUR_MAX_STEP_MS} ms.`
+    )
+  }
+  if (step.caption !== undefined && typeof step.caption !== 'string') {
+    throw new Error(`${label} has a "caption" that is not text.`)
+  }
+  return {
+    country,
+    target: [step.lon, step.lat],
+    duration,
+    caption: step.caption ?? '',
+  }
+}
+
+// Reads a teacher-authored tour:
+// { "title": "...", "steps": [{ "country": "Greenland", "lat": 0, "lon": 20,
+//   "duration": 3000, "caption": "..." }] }
+// Throws an Error with a user-facing message when the file does not fit.
+export const parseTourFile = async (file: File): Promise<Tour> => {
+  if (file.size > MAX_TOUR_FILE_BYTES) {
+    throw new Error('Tour files larger than 256 KB are not supported.')
+  }
+  let data: unknown
+  try {
+    data = JSON.parse(await file.text())
+  } catch {
+    throw new Error('The tour file is not valid JSON.')
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error('The tour file must contain an object with "steps".')
+  }
+  const { title, steps } = data as Record<string, unknown>
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error('The tour needs a non-empty "steps" list.')
+  }
+  if (steps.length > MAX_TOUR_STEPS) {
+    throw new Error(`Tours with more than ${MAX_TOUR_STEPS} steps are not supported.`)
+  }
+  const fallbackTitle = file.name.replace(/\.[^.]+$/, '') || 'Custom tour'
+  return {
+    id: `custom-${Date.now()}`,
+    title: typeof title === 'string' && title.trim() ? title.trim() : fallbackTitle,
+    steps: steps.map(parseStep),
+  }
+}